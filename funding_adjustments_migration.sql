@@ -0,0 +1,32 @@
+-- Supabase Migration File for the Funding Adjustments Ledger
+-- Run this SQL in your Supabase SQL Editor after funding_migration.sql
+-- Each /funding update add/remove is stored as its own entry; the current adjustment is the sum of active entries
+
+CREATE TABLE IF NOT EXISTS funding_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guild_id TEXT NOT NULL,
+  amount_pence BIGINT NOT NULL, -- positive adds to the remaining total, negative removes from it
+  reason TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_on DATE, -- last UK shift day the entry counts (end of week); null = never expires
+  voided_at TIMESTAMPTZ,
+  voided_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_funding_adjustments_guild_id ON funding_adjustments(guild_id);
+CREATE INDEX IF NOT EXISTS idx_funding_adjustments_created_at ON funding_adjustments(created_at);
+
+-- Carry over adjustments made before the ledger existed as a single opening entry
+INSERT INTO funding_adjustments (guild_id, amount_pence, reason, created_by)
+SELECT guild_id, manual_adjustment_pence, 'Opening balance (before adjustments ledger)', 'migration'
+FROM funding_states
+WHERE manual_adjustment_pence <> 0
+  AND NOT EXISTS (SELECT 1 FROM funding_adjustments a WHERE a.guild_id = funding_states.guild_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_adjustments" ON funding_adjustments
+  FOR ALL USING (true);
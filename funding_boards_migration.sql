@@ -0,0 +1,19 @@
+-- Supabase Migration File for Funding Boards
+-- Run this SQL in your Supabase SQL Editor after funding_trackers_migration.sql
+-- Remembers the pinned "Funding Board" message of each tracker so it can be edited in place
+
+CREATE TABLE IF NOT EXISTS funding_boards (
+  guild_id TEXT NOT NULL,
+  tracker_id TEXT NOT NULL DEFAULT 'default',
+  channel_id TEXT NOT NULL,
+  message_id TEXT NOT NULL, -- replaced when the board message is deleted and posted again
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (guild_id, tracker_id)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_boards ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_boards" ON funding_boards
+  FOR ALL USING (true);
@@ -0,0 +1,29 @@
+-- Supabase Migration File for Funding Contributions
+-- Run this SQL in your Supabase SQL Editor after funding_trackers_migration.sql
+-- Each upload that brings the table total down shares the drop between the chatters whose shifts
+-- overlapped the time since the previous upload, in proportion to their time on shift. These are
+-- estimates for /funding contributions, not exact attributions.
+
+CREATE TABLE IF NOT EXISTS funding_contributions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guild_id TEXT NOT NULL,
+  tracker_id TEXT NOT NULL DEFAULT 'default',
+  history_id UUID NOT NULL REFERENCES funding_updates_history(id) ON DELETE CASCADE, -- the upload that showed the drop
+  user_id TEXT NOT NULL,
+  amount_pence BIGINT NOT NULL, -- this chatter's share of the drop
+  overlap_minutes INTEGER NOT NULL, -- time on shift within the interval
+  interval_start TIMESTAMPTZ NOT NULL, -- the previous upload
+  interval_end TIMESTAMPTZ NOT NULL, -- this upload
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (history_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_funding_contributions_tracker
+  ON funding_contributions(guild_id, tracker_id, interval_end DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_contributions ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_contributions" ON funding_contributions
+  FOR ALL USING (true);
@@ -0,0 +1,7 @@
+-- Supabase Migration File for Funding Upload Duplicate Detection
+-- Run this SQL in your Supabase SQL Editor after funding_updates_history_migration.sql
+-- Stores a perceptual hash of each uploaded screenshot so re-posted or older screenshots can be recognised
+
+ALTER TABLE funding_updates_history ADD COLUMN IF NOT EXISTS image_hash TEXT;
+
+COMMENT ON COLUMN funding_updates_history.image_hash IS 'Perceptual hash (jimp pHash) of the original screenshot; null for recalculations';
@@ -0,0 +1,19 @@
+-- Supabase Migration File for Funding Periods
+-- Run this SQL in your Supabase SQL Editor to create the funding_periods table
+-- Holds the current period per guild: the starting total (first upload, a new end_date from staff, or the first rise after the goal was reached) and the milestones already announced
+
+CREATE TABLE IF NOT EXISTS funding_periods (
+  guild_id TEXT PRIMARY KEY,
+  end_date TEXT NOT NULL, -- YYYY-MM-DD the period counted down to when it started
+  start_total_pence BIGINT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  announced_milestones INTEGER[] NOT NULL DEFAULT '{}', -- percentages already celebrated
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_periods ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_periods" ON funding_periods
+  FOR ALL USING (true);
@@ -0,0 +1,23 @@
+-- Supabase Migration File for Funding Row Aliases
+-- Run this SQL in your Supabase SQL Editor to create the funding_row_aliases table
+-- Maps OCR variants of a row name (e.g. "Ma1sie", "Maisie R") to the canonical name used for totals and diffs
+
+CREATE TABLE IF NOT EXISTS funding_row_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guild_id TEXT NOT NULL,
+  alias_key TEXT NOT NULL, -- normalised variant: lowercase, punctuation and extra spaces removed
+  alias TEXT NOT NULL, -- variant as typed by staff, for display
+  canonical_name TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (guild_id, alias_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_funding_row_aliases_guild_id ON funding_row_aliases(guild_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_row_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_row_aliases" ON funding_row_aliases
+  FOR ALL USING (true);
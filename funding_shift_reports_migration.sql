@@ -0,0 +1,24 @@
+-- Supabase Migration File for Funding Shift Reports
+-- Run this SQL in your Supabase SQL Editor to create the funding_shift_reports table
+-- One row per shift-start announcement; the next announcement compares the table total against it
+
+CREATE TABLE IF NOT EXISTS funding_shift_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guild_id TEXT NOT NULL,
+  shift_day_iso_date TEXT NOT NULL,
+  shift_name TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  table_total_at_start_pence BIGINT NOT NULL,
+  target_pence BIGINT NOT NULL, -- the shift's (weighted) target when it started
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (guild_id, shift_day_iso_date, shift_name) -- stops double posts after restarts
+);
+
+CREATE INDEX IF NOT EXISTS idx_funding_shift_reports_guild_started ON funding_shift_reports(guild_id, started_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_shift_reports ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_shift_reports" ON funding_shift_reports
+  FOR ALL USING (true);
@@ -0,0 +1,19 @@
+-- Supabase Migration File for Funding Shift Weight Overrides
+-- Run this SQL in your Supabase SQL Editor to create the funding_shift_weights table
+-- Shifts without a row here use the weight learned from funding_updates_history
+
+CREATE TABLE IF NOT EXISTS funding_shift_weights (
+  guild_id TEXT NOT NULL,
+  shift_name TEXT NOT NULL, -- Morning, Day or Night
+  weight NUMERIC NOT NULL, -- relative share of the daily target; 1 = average shift
+  set_by TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (guild_id, shift_name)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_shift_weights ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_shift_weights" ON funding_shift_weights
+  FOR ALL USING (true);
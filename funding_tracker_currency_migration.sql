@@ -0,0 +1,7 @@
+-- Supabase Migration File for Funding Tracker Report Currencies
+-- Run this SQL in your Supabase SQL Editor after funding_trackers_migration.sql
+-- Lets a tracker also show its targets in a second currency, converted with the rates in FUNDING_EXCHANGE_RATES
+
+ALTER TABLE funding_trackers ADD COLUMN IF NOT EXISTS report_currency TEXT;
+
+COMMENT ON COLUMN funding_trackers.report_currency IS 'ISO 4217 code targets are also reported in; null shows the table currency only';
@@ -0,0 +1,50 @@
+-- Supabase Migration File for Multiple Funding Trackers
+-- Run this SQL in your Supabase SQL Editor after the other funding migrations
+-- Lets a guild track several tables, each bound to its own channel. The tracker configured through
+-- FUNDING_CHANNEL_ID keeps the id 'default', so existing rows carry over to it unchanged.
+
+CREATE TABLE IF NOT EXISTS funding_trackers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guild_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD', -- ISO 4217 code (USD, GBP or EUR)
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  archived_at TIMESTAMPTZ -- archived trackers keep their history but no longer take uploads
+);
+
+-- One active tracker per channel, and active names are unique within a guild
+CREATE UNIQUE INDEX IF NOT EXISTS idx_funding_trackers_active_channel
+  ON funding_trackers(guild_id, channel_id) WHERE archived_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_funding_trackers_active_name
+  ON funding_trackers(guild_id, lower(name)) WHERE archived_at IS NULL;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE funding_trackers ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all funding_trackers" ON funding_trackers
+  FOR ALL USING (true);
+
+-- Per-tracker state, history, adjustments, shift reports and milestone periods
+ALTER TABLE funding_states ADD COLUMN IF NOT EXISTS tracker_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE funding_states DROP CONSTRAINT IF EXISTS funding_states_pkey;
+ALTER TABLE funding_states ADD PRIMARY KEY (guild_id, tracker_id);
+
+ALTER TABLE funding_updates_history ADD COLUMN IF NOT EXISTS tracker_id TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX IF NOT EXISTS idx_funding_updates_history_tracker
+  ON funding_updates_history(guild_id, tracker_id, calculated_at DESC);
+
+ALTER TABLE funding_adjustments ADD COLUMN IF NOT EXISTS tracker_id TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX IF NOT EXISTS idx_funding_adjustments_tracker ON funding_adjustments(guild_id, tracker_id);
+
+ALTER TABLE funding_shift_reports ADD COLUMN IF NOT EXISTS tracker_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE funding_shift_reports
+  DROP CONSTRAINT IF EXISTS funding_shift_reports_guild_id_shift_day_iso_date_shift_name_key;
+ALTER TABLE funding_shift_reports
+  ADD CONSTRAINT funding_shift_reports_tracker_shift_key UNIQUE (guild_id, tracker_id, shift_day_iso_date, shift_name);
+
+ALTER TABLE funding_periods ADD COLUMN IF NOT EXISTS tracker_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE funding_periods DROP CONSTRAINT IF EXISTS funding_periods_pkey;
+ALTER TABLE funding_periods ADD PRIMARY KEY (guild_id, tracker_id);
@@ -6,7 +6,7 @@ CREATE TABLE IF NOT EXISTS funding_updates_history (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   guild_id TEXT NOT NULL,
   user_id TEXT NOT NULL,
-  command_type TEXT NOT NULL, -- 'slash_command' or 'text_command'
+  command_type TEXT NOT NULL, -- 'slash_command', 'text_command' or 'rollback'
   message_id TEXT, -- Discord message ID if available
   
   -- Image and OCR data
@@ -0,0 +1,7 @@
+-- Supabase Migration File for Shift-day Rollover Times
+-- Run this SQL in your Supabase SQL Editor after shift_configs_migration.sql
+-- Lets the shift-day start on the half hour (or any minute), not only on a whole hour
+
+ALTER TABLE shift_configs ADD COLUMN IF NOT EXISTS rollover_time TEXT;
+
+COMMENT ON COLUMN shift_configs.rollover_time IS 'HH:MM UK time the shift-day starts; null falls back to rollover_hour:00';
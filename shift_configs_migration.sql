@@ -0,0 +1,18 @@
+-- Supabase Migration File for Per-guild Shift Definitions
+-- Run this SQL in your Supabase SQL Editor to create the shift_configs table
+-- Guilds without a row use Morning 03:00–11:00, Day 11:00–19:00, Night 19:00–03:00 with the shift-day starting at 03:00
+
+CREATE TABLE IF NOT EXISTS shift_configs (
+  guild_id TEXT PRIMARY KEY,
+  shifts JSONB NOT NULL, -- [{ "name": "Morning", "start": "03:00", "end": "11:00" }, ...] in UK time
+  rollover_hour INTEGER NOT NULL DEFAULT 3, -- UK hour the shift-day starts; must be the start of a shift
+  updated_by TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE shift_configs ENABLE ROW LEVEL SECURITY;
+
+-- Service role policies
+CREATE POLICY "Service role can access all shift_configs" ON shift_configs
+  FOR ALL USING (true);
@@ -1,4 +1,5 @@
 import {
+  ChannelType,
   PermissionFlagsBits,
   SlashCommandBuilder,
   type ChatInputCommandInteraction,
@@ -125,6 +126,31 @@ export const endShiftCommand = new SlashCommandBuilder()
   .setDescription('End your shift (logs timestamp)')
   .setDMPermission(false); // Only works in servers, not DMs
 
+export const shiftsCommand = new SlashCommandBuilder()
+  .setName('shifts')
+  .setDescription('Shift names and times used for funding targets and shift reports')
+  .addSubcommand((sub) => sub.setName('show').setDescription('Show the shift times for this server'))
+  .addSubcommand((sub) =>
+    sub
+      .setName('set')
+      .setDescription('Replace the shift times (staff only)')
+      .addStringOption((opt) =>
+        opt
+          .setName('shifts')
+          .setDescription('e.g. "Early 06:00-14:00, Late 14:00-22:00, Overnight 22:00-06:00" (UK time)')
+          .setRequired(true)
+          .setMaxLength(500),
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName('rollover')
+          .setDescription('UK time the shift-day starts, HH:MM (default: start of the first shift)')
+          .setMaxLength(5),
+      ),
+  )
+  .addSubcommand((sub) => sub.setName('reset').setDescription('Go back to Morning, Day and Night (staff only)'))
+  .setDMPermission(false);
+
 export const rotaCommand = new SlashCommandBuilder()
   .setName('rota')
   .setDescription('Submit or view your rota for the current UK week (Mon–Sun)')
@@ -149,11 +175,272 @@ export const rotaCommand = new SlashCommandBuilder()
   )
   .setDMPermission(false);
 
+export const fundingCommand = new SlashCommandBuilder()
+  .setName('funding')
+  .setDescription('Funding target tracker (staff only)')
+  .addSubcommand((sub) =>
+    sub
+      .setName('update')
+      .setDescription('Recalculate targets from the last uploaded table')
+      .addStringOption((opt) =>
+        opt.setName('end_date').setDescription('End date (YYYY-MM-DD, UK)').setMaxLength(10),
+      )
+      .addIntegerOption((opt) =>
+        opt.setName('days_left').setDescription('Days left including today (overrides end_date)').setMinValue(1).setMaxValue(365),
+      )
+      .addNumberOption((opt) =>
+        opt.setName('add').setDescription('Add an amount to the remaining total').setMinValue(0.01),
+      )
+      .addNumberOption((opt) =>
+        opt.setName('remove').setDescription('Remove an amount from the remaining total').setMinValue(0.01),
+      )
+      .addBooleanOption((opt) =>
+        opt.setName('reset_adjustment').setDescription('Void all active add/remove adjustments'),
+      )
+      .addStringOption((opt) =>
+        opt.setName('reason').setDescription('Why the amount is being added or removed').setMaxLength(200),
+      )
+      .addBooleanOption((opt) =>
+        opt.setName('expires_end_of_week').setDescription('Stop counting the add/remove after this week'),
+      )
+      .addStringOption((opt) =>
+        opt.setName('tracker').setDescription('Tracker name (defaults to the one for this channel)').setMaxLength(50),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('adjustments')
+      .setDescription('List manual adjustments and void individual entries')
+      .addBooleanOption((opt) => opt.setName('show_all').setDescription('Include voided and expired entries'))
+      .addStringOption((opt) =>
+        opt.setName('tracker').setDescription('Tracker name (defaults to the one for this channel)').setMaxLength(50),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('history')
+      .setDescription('Browse past funding uploads and recalculations')
+      .addIntegerOption((opt) => opt.setName('page').setDescription('Page number').setMinValue(1))
+      .addStringOption((opt) =>
+        opt.setName('tracker').setDescription('Tracker name (defaults to the one for this channel)').setMaxLength(50),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('export')
+      .setDescription('Download funding history as a CSV or JSON file')
+      .addStringOption((opt) =>
+        opt.setName('from').setDescription('First shift day (YYYY-MM-DD)').setRequired(true).setMinLength(10).setMaxLength(10),
+      )
+      .addStringOption((opt) =>
+        opt.setName('to').setDescription('Last shift day (YYYY-MM-DD)').setRequired(true).setMinLength(10).setMaxLength(10),
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName('format')
+          .setDescription('File format (default: csv)')
+          .addChoices({ name: 'CSV', value: 'csv' }, { name: 'JSON', value: 'json' }),
+      )
+      .addBooleanOption((opt) => opt.setName('rows').setDescription('Include every parsed table row, not just the totals'))
+      .addStringOption((opt) =>
+        opt.setName('tracker').setDescription('Tracker name (defaults to the one for this channel)').setMaxLength(50),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('contributions')
+      .setDescription('Estimated share of the drops in the table total per chatter, by time on shift')
+      .addStringOption((opt) =>
+        opt
+          .setName('period')
+          .setDescription('Which uploads to count (default: this funding period)')
+          .addChoices(
+            { name: 'This funding period', value: 'period' },
+            { name: 'Last 7 days', value: '7d' },
+            { name: 'Last 30 days', value: '30d' },
+            { name: 'All time', value: 'all' },
+          ),
+      )
+      .addStringOption((opt) =>
+        opt.setName('tracker').setDescription('Tracker name (defaults to the one for this channel)').setMaxLength(50),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('undo')
+      .setDescription('Go back to the previous upload (values and adjustment)')
+      .addStringOption((opt) =>
+        opt.setName('tracker').setDescription('Tracker name (defaults to the one for this channel)').setMaxLength(50),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('restore')
+      .setDescription('Restore any earlier calculation from /funding history')
+      .addStringOption((opt) =>
+        opt.setName('id').setDescription('History id (the 8 characters shown in /funding history)').setRequired(true).setMaxLength(36),
+      )
+      .addStringOption((opt) =>
+        opt.setName('tracker').setDescription('Tracker name (defaults to the one for this channel)').setMaxLength(50),
+      ),
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('alias')
+      .setDescription('Map OCR variants of a row name to one canonical name')
+      .addSubcommand((sub) =>
+        sub
+          .setName('add')
+          .setDescription('Count a row name variant as another name')
+          .addStringOption((opt) =>
+            opt.setName('variant').setDescription('Name as OCR reads it (e.g. Ma1sie)').setRequired(true).setMaxLength(100),
+          )
+          .addStringOption((opt) =>
+            opt.setName('canonical').setDescription('Name to count it as (e.g. Maisie)').setRequired(true).setMaxLength(100),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName('remove')
+          .setDescription('Remove a row name alias')
+          .addStringOption((opt) =>
+            opt.setName('variant').setDescription('Variant to stop mapping').setRequired(true).setMaxLength(100),
+          ),
+      )
+      .addSubcommand((sub) => sub.setName('list').setDescription('List row name aliases')),
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('weights')
+      .setDescription('How the daily target is shared between shifts')
+      .addSubcommand((sub) =>
+        sub
+          .setName('set')
+          .setDescription('Override the learned weight for a shift')
+          .addStringOption((opt) =>
+            opt
+              .setName('shift')
+              .setDescription('Shift to override (name as shown by /shifts show)')
+              .setRequired(true)
+              .setMaxLength(20),
+          )
+          .addNumberOption((opt) =>
+            opt
+              .setName('weight')
+              .setDescription('Share relative to an average shift (1 = average, 2 = twice as much)')
+              .setRequired(true)
+              .setMinValue(0.1)
+              .setMaxValue(10),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName('clear')
+          .setDescription('Go back to the learned weight for a shift')
+          .addStringOption((opt) =>
+            opt
+              .setName('shift')
+              .setDescription('Shift to clear (name as shown by /shifts show)')
+              .setRequired(true)
+              .setMaxLength(20),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName('show')
+          .setDescription('Show learned weights, overrides and the weights in use')
+          .addStringOption((opt) =>
+            opt.setName('tracker').setDescription('Tracker to learn from (defaults to the one for this channel)').setMaxLength(50),
+          ),
+      ),
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('tracker')
+      .setDescription('Track several tables, each in its own channel')
+      .addSubcommand((sub) =>
+        sub
+          .setName('create')
+          .setDescription('Start tracking a table posted in a channel')
+          .addStringOption((opt) =>
+            opt.setName('name').setDescription('Tracker name (e.g. EU team)').setRequired(true).setMaxLength(50),
+          )
+          .addChannelOption((opt) =>
+            opt
+              .setName('channel')
+              .setDescription('Channel the table screenshots are posted in')
+              .setRequired(true)
+              .addChannelTypes(ChannelType.GuildText),
+          )
+          .addStringOption((opt) =>
+            opt
+              .setName('currency')
+              .setDescription('Currency of the table (default USD)')
+              .addChoices(
+                { name: 'USD ($)', value: 'USD' },
+                { name: 'GBP (£)', value: 'GBP' },
+                { name: 'EUR (€)', value: 'EUR' },
+              ),
+          )
+          .addStringOption((opt) =>
+            opt
+              .setName('report_currency')
+              .setDescription('Also show targets in this currency (needs a rate in FUNDING_EXCHANGE_RATES)')
+              .addChoices(
+                { name: 'USD ($)', value: 'USD' },
+                { name: 'GBP (£)', value: 'GBP' },
+                { name: 'EUR (€)', value: 'EUR' },
+              ),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName('currency')
+          .setDescription('Change the currency a tracker counts and reports in')
+          .addStringOption((opt) =>
+            opt.setName('name').setDescription('Tracker to change').setRequired(true).setMaxLength(50),
+          )
+          .addStringOption((opt) =>
+            opt
+              .setName('currency')
+              .setDescription('Currency of the table')
+              .setRequired(true)
+              .addChoices(
+                { name: 'USD ($)', value: 'USD' },
+                { name: 'GBP (£)', value: 'GBP' },
+                { name: 'EUR (€)', value: 'EUR' },
+              ),
+          )
+          .addStringOption((opt) =>
+            opt
+              .setName('report_currency')
+              .setDescription('Also show targets in this currency (leave empty to stop)')
+              .addChoices(
+                { name: 'USD ($)', value: 'USD' },
+                { name: 'GBP (£)', value: 'GBP' },
+                { name: 'EUR (€)', value: 'EUR' },
+              ),
+          ),
+      )
+      .addSubcommand((sub) => sub.setName('list').setDescription('List funding trackers'))
+      .addSubcommand((sub) =>
+        sub
+          .setName('archive')
+          .setDescription('Stop tracking a table (its history is kept)')
+          .addStringOption((opt) =>
+            opt.setName('name').setDescription('Tracker to archive').setRequired(true).setMaxLength(50),
+          ),
+      ),
+  )
+  .setDMPermission(false);
+
 export const ALL_COMMANDS = [
   taskAssignCommand,
   startShiftCommand,
   endShiftCommand,
   rotaCommand,
+  shiftsCommand,
+  fundingCommand,
 ].map((c) => c.toJSON());
 
 export function isChatInput(i: any): i is ChatInputCommandInteraction {
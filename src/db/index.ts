@@ -62,15 +62,27 @@ function toSnakeCase(obj: any): any {
 
 // Prisma-compatible interface
 // Funding Updates History
+// text_command: screenshot upload, slash_command: /funding update, rollback: state restored to an earlier upload
+export type FundingHistoryCommandType = 'slash_command' | 'text_command' | 'rollback';
+// A parsed table row as stored; check is the Needed = Target − Achieved cross-check, when the table had both.
+export type FundingHistoryRow = {
+  name: string;
+  neededPence: number | null;
+  confidence: number;
+  check?: 'ok' | 'mismatch' | 'reconstructed';
+};
+
 export const fundingUpdatesHistory = {
   create: async (data: {
     guildId: string;
+    trackerId: string;
     userId: string;
-    commandType: 'slash_command' | 'text_command';
+    commandType: FundingHistoryCommandType;
     messageId?: string | null;
     imageUrl: string;
+    imageHash?: string | null;
     ocrText?: string | null;
-    parsedRows: Array<{ name: string; neededPence: number | null; confidence: number }>;
+    parsedRows: FundingHistoryRow[];
     parsedNeededValues: number[];
     parsedTotalPence: number;
     daysLeft: number;
@@ -88,10 +100,12 @@ export const fundingUpdatesHistory = {
   }) => {
     const payload: any = {
       guild_id: data.guildId,
+      tracker_id: data.trackerId,
       user_id: data.userId,
       command_type: data.commandType,
       message_id: data.messageId ?? null,
       image_url: data.imageUrl,
+      image_hash: data.imageHash ?? null,
       ocr_text: data.ocrText ?? null,
       parsed_rows: data.parsedRows,
       parsed_needed_values: data.parsedNeededValues,
@@ -133,10 +147,626 @@ export const fundingUpdatesHistory = {
     }
 
     console.log('[Funding History DB] Successfully inserted, ID:', result?.id);
-    return result;
+    return mapFundingHistoryRow(result);
+  },
+  findMany: async (query: {
+    where: {
+      guildId: string;
+      trackerId: string;
+      commandType?: FundingHistoryCommandType | FundingHistoryCommandType[];
+      shiftDayFrom?: string; // YYYY-MM-DD, inclusive
+      shiftDayTo?: string; // YYYY-MM-DD, inclusive
+    };
+    skip?: number;
+    take?: number;
+  }) => {
+    const skip = query.skip ?? 0;
+    const take = query.take ?? 10;
+    let builder = getSupabase()
+      .from('funding_updates_history')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId);
+    if (Array.isArray(query.where.commandType)) builder = builder.in('command_type', query.where.commandType);
+    else if (query.where.commandType) builder = builder.eq('command_type', query.where.commandType);
+    if (query.where.shiftDayFrom) builder = builder.gte('shift_day_iso_date', query.where.shiftDayFrom);
+    if (query.where.shiftDayTo) builder = builder.lte('shift_day_iso_date', query.where.shiftDayTo);
+    // id breaks ties between entries saved in the same instant, so paging with skip never repeats or drops one.
+    const { data, error } = await builder
+      .order('calculated_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(skip, skip + take - 1);
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingHistoryRow);
+  },
+  findUnique: async (query: { where: { id: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_updates_history')
+      .select('*')
+      .eq('id', query.where.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return mapFundingHistoryRow(data);
+  },
+  count: async (query: { where: { guildId: string; trackerId: string } }) => {
+    const { count, error } = await getSupabase()
+      .from('funding_updates_history')
+      .select('id', { count: 'exact', head: true })
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+};
+
+// Funding Adjustments Ledger
+export const fundingAdjustments = {
+  create: async (data: {
+    guildId: string;
+    trackerId: string;
+    amountPence: number;
+    reason?: string | null;
+    createdBy: string;
+    expiresOn?: string | null;
+  }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      tracker_id: data.trackerId,
+      amount_pence: data.amountPence,
+      reason: data.reason ?? null,
+      created_by: data.createdBy,
+      expires_on: data.expiresOn ?? null,
+    };
+    const { data: result, error } = await getSupabase().from('funding_adjustments').insert(payload).select().single();
+
+    if (error) throw error;
+    return mapFundingAdjustment(result);
+  },
+  findMany: async (query: { where: { guildId: string; trackerId: string; voided?: boolean }; take?: number }) => {
+    let builder = getSupabase()
+      .from('funding_adjustments')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId);
+    if (query.where.voided === false) builder = builder.is('voided_at', null);
+    if (query.where.voided === true) builder = builder.not('voided_at', 'is', null);
+    const { data, error } = await builder.order('created_at', { ascending: false }).limit(query.take ?? 100);
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingAdjustment);
+  },
+  findUnique: async (query: { where: { id: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_adjustments')
+      .select('*')
+      .eq('id', query.where.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return mapFundingAdjustment(data);
+  },
+  void: async (query: { where: { id: string }; data: { voidedBy: string } }) => {
+    const payload = { voided_at: new Date().toISOString(), voided_by: query.data.voidedBy };
+    const { data, error } = await getSupabase()
+      .from('funding_adjustments')
+      .update(payload as never) // the client has no generated table types, so update() expects never
+      .eq('id', query.where.id)
+      .is('voided_at', null)
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingAdjustment)[0] ?? null;
+  },
+};
+
+function mapFundingAdjustment(row: any) {
+  return {
+    id: row.id as string,
+    guildId: row.guild_id as string,
+    trackerId: (row.tracker_id ?? 'default') as string,
+    amountPence: Number(row.amount_pence ?? 0),
+    reason: (row.reason ?? null) as string | null,
+    createdBy: row.created_by as string,
+    createdAt: row.created_at as string,
+    expiresOn: (row.expires_on ?? null) as string | null,
+    voidedAt: (row.voided_at ?? null) as string | null,
+    voidedBy: (row.voided_by ?? null) as string | null,
+  };
+}
+
+// Funding Row Aliases
+export const fundingRowAliases = {
+  findMany: async (query: { where: { guildId: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_row_aliases')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .order('canonical_name', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingRowAlias);
+  },
+  upsert: async (data: { guildId: string; aliasKey: string; alias: string; canonicalName: string; createdBy: string }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      alias_key: data.aliasKey,
+      alias: data.alias,
+      canonical_name: data.canonicalName,
+      created_by: data.createdBy,
+    };
+    const { data: result, error } = await getSupabase()
+      .from('funding_row_aliases')
+      .upsert(payload, { onConflict: 'guild_id,alias_key' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapFundingRowAlias(result);
+  },
+  delete: async (query: { where: { guildId: string; aliasKey: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_row_aliases')
+      .delete()
+      .eq('guild_id', query.where.guildId)
+      .eq('alias_key', query.where.aliasKey)
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).length;
+  },
+};
+
+// Funding Shift Reports (one per announced shift)
+export const fundingShiftReports = {
+  /** Returns null when this shift was already announced (another tick or instance got there first). */
+  create: async (data: {
+    guildId: string;
+    trackerId: string;
+    shiftDayIsoDate: string;
+    shiftName: string;
+    startedAt: string;
+    tableTotalAtStartPence: number;
+    targetPence: number;
+  }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      tracker_id: data.trackerId,
+      shift_day_iso_date: data.shiftDayIsoDate,
+      shift_name: data.shiftName,
+      started_at: data.startedAt,
+      table_total_at_start_pence: data.tableTotalAtStartPence,
+      target_pence: data.targetPence,
+    };
+    const { data: result, error } = await getSupabase().from('funding_shift_reports').insert(payload).select().single();
+
+    if (error?.code === '23505') return null; // unique violation
+    if (error) throw error;
+    return mapFundingShiftReport(result);
+  },
+  findMany: async (query: { where: { guildId: string; trackerId: string }; take?: number }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_shift_reports')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId)
+      .order('started_at', { ascending: false })
+      .limit(query.take ?? 10);
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingShiftReport);
+  },
+};
+
+function mapFundingShiftReport(row: any) {
+  return {
+    id: row.id as string,
+    guildId: row.guild_id as string,
+    trackerId: (row.tracker_id ?? 'default') as string,
+    shiftDayIsoDate: row.shift_day_iso_date as string,
+    shiftName: row.shift_name as string,
+    startedAt: row.started_at as string,
+    tableTotalAtStartPence: Number(row.table_total_at_start_pence ?? 0),
+    targetPence: Number(row.target_pence ?? 0),
+  };
+}
+
+// Funding Periods (one current period per tracker, for milestones)
+export const fundingPeriods = {
+  findUnique: async (query: { where: { guildId: string; trackerId: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_periods')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return mapFundingPeriod(data);
+  },
+  upsert: async (data: {
+    guildId: string;
+    trackerId: string;
+    endDate: string;
+    startTotalPence: number;
+    startedAt: string;
+    announcedMilestones: number[];
+  }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      tracker_id: data.trackerId,
+      end_date: data.endDate,
+      start_total_pence: data.startTotalPence,
+      started_at: data.startedAt,
+      announced_milestones: data.announcedMilestones,
+      updated_at: new Date().toISOString(),
+    };
+    const { data: result, error } = await getSupabase()
+      .from('funding_periods')
+      .upsert(payload, { onConflict: 'guild_id,tracker_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapFundingPeriod(result);
   },
 };
 
+function mapFundingPeriod(row: any) {
+  return {
+    guildId: row.guild_id as string,
+    trackerId: (row.tracker_id ?? 'default') as string,
+    endDate: row.end_date as string,
+    startTotalPence: Number(row.start_total_pence ?? 0),
+    startedAt: row.started_at as string,
+    announcedMilestones: ((row.announced_milestones ?? []) as any[]).map((v) => Number(v)),
+  };
+}
+
+// Funding Boards (the pinned board message of each tracker)
+export const fundingBoards = {
+  findUnique: async (query: { where: { guildId: string; trackerId: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_boards')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return mapFundingBoard(data);
+  },
+  upsert: async (data: { guildId: string; trackerId: string; channelId: string; messageId: string }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      tracker_id: data.trackerId,
+      channel_id: data.channelId,
+      message_id: data.messageId,
+      updated_at: new Date().toISOString(),
+    };
+    const { data: result, error } = await getSupabase()
+      .from('funding_boards')
+      .upsert(payload, { onConflict: 'guild_id,tracker_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapFundingBoard(result);
+  },
+};
+
+function mapFundingBoard(row: any) {
+  return {
+    guildId: row.guild_id as string,
+    trackerId: (row.tracker_id ?? 'default') as string,
+    channelId: row.channel_id as string,
+    messageId: row.message_id as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+// Funding Contributions (estimated share of each drop in the table total, per chatter on shift)
+export const fundingContributions = {
+  createMany: async (
+    entries: {
+      guildId: string;
+      trackerId: string;
+      historyId: string;
+      userId: string;
+      amountPence: number;
+      overlapMinutes: number;
+      intervalStart: string;
+      intervalEnd: string;
+    }[],
+  ) => {
+    if (entries.length === 0) return 0;
+    const payload: any = entries.map((e) => ({
+      guild_id: e.guildId,
+      tracker_id: e.trackerId,
+      history_id: e.historyId,
+      user_id: e.userId,
+      amount_pence: e.amountPence,
+      overlap_minutes: e.overlapMinutes,
+      interval_start: e.intervalStart,
+      interval_end: e.intervalEnd,
+    }));
+    // An upload is only apportioned once; a repeat for the same history entry changes nothing.
+    const { data, error } = await getSupabase()
+      .from('funding_contributions')
+      .upsert(payload, { onConflict: 'history_id,user_id', ignoreDuplicates: true })
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).length;
+  },
+  findMany: async (query: { where: { guildId: string; trackerId: string; intervalEndGte?: string | null } }) => {
+    let builder = getSupabase()
+      .from('funding_contributions')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId);
+    if (query.where.intervalEndGte) builder = builder.gte('interval_end', query.where.intervalEndGte);
+    const { data, error } = await builder.order('interval_end', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingContribution);
+  },
+  deleteMany: async (query: { where: { guildId: string; trackerId: string; intervalEndGt: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_contributions')
+      .delete()
+      .eq('guild_id', query.where.guildId)
+      .eq('tracker_id', query.where.trackerId)
+      .gt('interval_end', query.where.intervalEndGt)
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).length;
+  },
+};
+
+function mapFundingContribution(row: any) {
+  return {
+    id: row.id as string,
+    guildId: row.guild_id as string,
+    trackerId: (row.tracker_id ?? 'default') as string,
+    historyId: row.history_id as string,
+    userId: row.user_id as string,
+    amountPence: Number(row.amount_pence ?? 0),
+    overlapMinutes: Number(row.overlap_minutes ?? 0),
+    intervalStart: row.interval_start as string,
+    intervalEnd: row.interval_end as string,
+  };
+}
+
+// Funding Trackers (extra tables a guild tracks besides the FUNDING_CHANNEL_ID one)
+export const fundingTrackers = {
+  findMany: async (query: { where: { guildId?: string; includeArchived?: boolean } }) => {
+    let builder = getSupabase().from('funding_trackers').select('*');
+    if (query.where.guildId) builder = builder.eq('guild_id', query.where.guildId);
+    if (!query.where.includeArchived) builder = builder.is('archived_at', null);
+    const { data, error } = await builder.order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingTracker);
+  },
+  create: async (data: {
+    guildId: string;
+    name: string;
+    channelId: string;
+    currency: string;
+    reportCurrency?: string | null;
+    createdBy: string;
+  }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      name: data.name,
+      channel_id: data.channelId,
+      currency: data.currency,
+      report_currency: data.reportCurrency ?? null,
+      created_by: data.createdBy,
+    };
+    const { data: result, error } = await getSupabase().from('funding_trackers').insert(payload).select().single();
+
+    if (error) throw error;
+    return mapFundingTracker(result);
+  },
+  update: async (query: { where: { id: string }; data: { currency: string; reportCurrency: string | null } }) => {
+    const payload = { currency: query.data.currency, report_currency: query.data.reportCurrency };
+    const { data, error } = await getSupabase()
+      .from('funding_trackers')
+      .update(payload as never)
+      .eq('id', query.where.id)
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingTracker)[0] ?? null;
+  },
+  archive: async (query: { where: { id: string } }) => {
+    const payload = { archived_at: new Date().toISOString() };
+    const { data, error } = await getSupabase()
+      .from('funding_trackers')
+      .update(payload as never)
+      .eq('id', query.where.id)
+      .is('archived_at', null)
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingTracker)[0] ?? null;
+  },
+};
+
+function mapFundingTracker(row: any) {
+  return {
+    id: row.id as string,
+    guildId: row.guild_id as string,
+    name: row.name as string,
+    channelId: row.channel_id as string,
+    currency: (row.currency ?? 'USD') as string,
+    reportCurrency: (row.report_currency ?? null) as string | null,
+    createdBy: row.created_by as string,
+    createdAt: row.created_at as string,
+    archivedAt: (row.archived_at ?? null) as string | null,
+  };
+}
+
+// Per-guild Shift Definitions
+export const shiftConfigs = {
+  findUnique: async (query: { where: { guildId: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('shift_configs')
+      .select('*')
+      .eq('guild_id', query.where.guildId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return mapShiftConfig(data);
+  },
+  upsert: async (data: {
+    guildId: string;
+    shifts: Array<{ name: string; start: string; end: string }>;
+    rollover: string;
+    updatedBy: string;
+  }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      shifts: data.shifts,
+      rollover_time: data.rollover,
+      rollover_hour: Number(data.rollover.slice(0, 2)), // kept filled for rows read before rollover_time existed
+      updated_by: data.updatedBy,
+      updated_at: new Date().toISOString(),
+    };
+    const { data: result, error } = await getSupabase()
+      .from('shift_configs')
+      .upsert(payload, { onConflict: 'guild_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapShiftConfig(result);
+  },
+  delete: async (query: { where: { guildId: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('shift_configs')
+      .delete()
+      .eq('guild_id', query.where.guildId)
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).length;
+  },
+};
+
+function mapShiftConfig(row: any) {
+  return {
+    guildId: row.guild_id as string,
+    shifts: (row.shifts ?? []) as Array<{ name: string; start: string; end: string }>,
+    rollover: (row.rollover_time as string | null) ?? `${String(row.rollover_hour ?? 3).padStart(2, '0')}:00`,
+    updatedBy: row.updated_by as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+// Funding Shift Weight Overrides
+export const fundingShiftWeights = {
+  findMany: async (query: { where: { guildId: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_shift_weights')
+      .select('*')
+      .eq('guild_id', query.where.guildId);
+
+    if (error) throw error;
+    return (data ?? []).map(mapFundingShiftWeight);
+  },
+  upsert: async (data: { guildId: string; shiftName: string; weight: number; setBy: string }) => {
+    const payload: any = {
+      guild_id: data.guildId,
+      shift_name: data.shiftName,
+      weight: data.weight,
+      set_by: data.setBy,
+      updated_at: new Date().toISOString(),
+    };
+    const { data: result, error } = await getSupabase()
+      .from('funding_shift_weights')
+      .upsert(payload, { onConflict: 'guild_id,shift_name' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapFundingShiftWeight(result);
+  },
+  delete: async (query: { where: { guildId: string; shiftName: string } }) => {
+    const { data, error } = await getSupabase()
+      .from('funding_shift_weights')
+      .delete()
+      .eq('guild_id', query.where.guildId)
+      .eq('shift_name', query.where.shiftName)
+      .select();
+
+    if (error) throw error;
+    return (data ?? []).length;
+  },
+};
+
+function mapFundingShiftWeight(row: any) {
+  return {
+    guildId: row.guild_id as string,
+    shiftName: row.shift_name as string,
+    weight: Number(row.weight),
+    setBy: row.set_by as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function mapFundingRowAlias(row: any) {
+  return {
+    id: row.id as string,
+    guildId: row.guild_id as string,
+    aliasKey: row.alias_key as string,
+    alias: row.alias as string,
+    canonicalName: row.canonical_name as string,
+    createdBy: row.created_by as string,
+    createdAt: row.created_at as string,
+  };
+}
+
+function mapFundingHistoryRow(row: any) {
+  return {
+    id: row.id as string,
+    guildId: row.guild_id as string,
+    trackerId: (row.tracker_id ?? 'default') as string,
+    userId: row.user_id as string,
+    commandType: row.command_type as FundingHistoryCommandType,
+    messageId: row.message_id ?? null,
+    imageUrl: row.image_url as string,
+    imageHash: (row.image_hash ?? null) as string | null,
+    ocrText: row.ocr_text ?? null,
+    parsedRows: (row.parsed_rows ?? []) as FundingHistoryRow[],
+    parsedNeededValues: ((row.parsed_needed_values ?? []) as any[]).map((v) => Number(v)),
+    parsedTotalPence: Number(row.parsed_total_pence ?? 0),
+    daysLeft: Number(row.days_left ?? 0),
+    endOfWeekDate: row.end_of_week_date ?? null,
+    dailyTargetPence: Number(row.daily_target_pence ?? 0),
+    remainingShifts: (row.remaining_shifts ?? []) as string[],
+    perShiftPence: Number(row.per_shift_pence ?? 0),
+    currentShift: row.current_shift as string,
+    shiftDayIsoDate: row.shift_day_iso_date as string,
+    manualAdjustmentPence: Number(row.manual_adjustment_pence ?? 0),
+    manualAdjustmentType: row.manual_adjustment_type ?? null,
+    daysLeftOverride: row.days_left_override ?? null,
+    endDateOverride: row.end_date_override ?? null,
+    calculatedAt: row.calculated_at as string,
+    createdAt: row.created_at as string,
+  };
+}
+
 export const prisma = {
   task: {
     findUnique: async (query: { where: { id?: string; channelId?: string }; include?: any }) => {
@@ -463,6 +1093,10 @@ export const prisma = {
       if (query.where?.startTimeLt) {
         supabaseQuery = supabaseQuery.lt('start_time', query.where.startTimeLt);
       }
+      if (query.where?.endTimeGtOrNull) {
+        // Still running, or ended after the given time
+        supabaseQuery = supabaseQuery.or(`end_time.is.null,end_time.gt.${query.where.endTimeGtOrNull}`);
+      }
       if (query.where?.activityCountEq !== undefined) {
         supabaseQuery = supabaseQuery.eq('activity_count', query.where.activityCountEq);
       }
@@ -525,11 +1159,12 @@ export const prisma = {
     },
   },
   fundingState: {
-    findUnique: async (query: { where: { guildId: string } }) => {
+    findUnique: async (query: { where: { guildId: string; trackerId: string } }) => {
       const { data, error } = await getSupabase()
         .from('funding_states')
         .select('*')
         .eq('guild_id', query.where.guildId)
+        .eq('tracker_id', query.where.trackerId)
         .maybeSingle();
 
       if (error) throw error;
@@ -551,11 +1186,12 @@ export const prisma = {
         updatedAt: data.updated_at,
       };
     },
-    upsert: async (query: { where: { guildId: string }; create: any; update: any }) => {
-      const guildId = query.where.guildId;
+    upsert: async (query: { where: { guildId: string; trackerId: string }; create: any; update: any }) => {
+      const { guildId, trackerId } = query.where;
       const now = new Date().toISOString();
       const payload: any = {
         guild_id: guildId,
+        tracker_id: trackerId,
         channel_id: query.update?.channelId ?? query.create?.channelId,
         end_date: query.update?.endDate ?? query.create?.endDate ?? null,
         manual_adjustment_pence:
@@ -574,7 +1210,7 @@ export const prisma = {
       // created_at should only be set on insert; Supabase upsert will overwrite if provided, so omit it.
       const { data, error } = await getSupabase()
         .from('funding_states')
-        .upsert(payload, { onConflict: 'guild_id' })
+        .upsert(payload, { onConflict: 'guild_id,tracker_id' })
         .select()
         .single();
 
@@ -596,7 +1232,7 @@ export const prisma = {
         updatedAt: data.updated_at,
       };
     },
-    update: async (query: { where: { guildId: string }; data: any }) => {
+    update: async (query: { where: { guildId: string; trackerId: string }; data: any }) => {
       const updates: any = { updated_at: new Date().toISOString() };
       if (query.data.channelId !== undefined) updates.channel_id = query.data.channelId;
       if (query.data.endDate !== undefined) updates.end_date = query.data.endDate;
@@ -614,9 +1250,10 @@ export const prisma = {
       const { error } = await getSupabase()
         .from('funding_states')
         .update(updates)
-        .eq('guild_id', query.where.guildId);
+        .eq('guild_id', query.where.guildId)
+        .eq('tracker_id', query.where.trackerId);
       if (error) throw error;
-      return { guildId: query.where.guildId };
+      return { guildId: query.where.guildId, trackerId: query.where.trackerId };
     },
   },
   rotaWeek: {
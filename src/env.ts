@@ -20,8 +20,37 @@ const schema = z.object({
 
   // Funding target tracker (table OCR -> daily/shift targets). Optional: feature is disabled unless channel is set.
   FUNDING_CHANNEL_ID: z.string().optional().default(''),
-  // Expected format: YYYY-MM-DD (UK date). If omitted, /update must be passed end_date or days_left.
+  // Name of the tracker bound to FUNDING_CHANNEL_ID; further trackers are added with /funding tracker create.
+  FUNDING_DEFAULT_TRACKER_NAME: z.string().optional().default('Main'),
+  // Currency of the FUNDING_CHANNEL_ID table (USD, GBP or EUR), and optionally a second currency to also show targets in.
+  FUNDING_CURRENCY: z.enum(['USD', 'GBP', 'EUR']).optional().default('USD'),
+  FUNDING_REPORT_CURRENCY: z.enum(['USD', 'GBP', 'EUR', '']).optional().default(''),
+  // Locally maintained rates for report currencies, e.g. "GBP/USD=1.27,EUR/USD=1.08" (reverse pairs are derived).
+  FUNDING_EXCHANGE_RATES: z.string().optional().default(''),
+  // Expected format: YYYY-MM-DD (UK date). If omitted, targets run to the end of the UK week unless /funding update sets end_date or days_left.
   FUNDING_END_DATE: z.string().optional().default(''),
+  // Who may post funding screenshots: STAFF_USER_IDS, members with a STAFF_ROLE_IDS role, and these extra roles (comma-separated).
+  FUNDING_UPLOADER_ROLE_IDS: z.string().optional().default(''),
+  // Optional channel for audit notes (rejected uploads, rollbacks). Falls back to the bot log when empty.
+  FUNDING_AUDIT_CHANNEL_ID: z.string().optional().default(''),
+  // OCR worker pool: uploads are processed one at a time; beyond this many queued jobs uploads are turned away.
+  OCR_MAX_QUEUED_JOBS: z.coerce.number().int().positive().optional().default(5),
+  OCR_JOB_TIMEOUT_SECONDS: z.coerce.number().int().positive().optional().default(90),
+  // Image preprocessing before OCR: comma-separated stages (grayscale, invert, upscale, threshold, crop). Empty disables.
+  OCR_PREPROCESS_STAGES: z.string().optional().default('grayscale,invert,upscale,threshold'),
+  OCR_UPSCALE_MIN_WIDTH: z.coerce.number().int().positive().optional().default(1200),
+  // When 'true', the processed image is posted back to the funding channel so staff can see what the OCR saw.
+  OCR_DEBUG_IMAGES: z.string().optional().default('false'),
+  // Uploads whose table total rises by more than this percentage over the last upload wait for staff confirmation.
+  FUNDING_MAX_TOTAL_RISE_PERCENT: z.coerce.number().nonnegative().optional().default(20),
+  // When 'true', the remaining total and the new shift's target are posted to the funding channel as each shift starts.
+  FUNDING_SHIFT_ANNOUNCEMENTS: z.string().optional().default('true'),
+  // When 'true', each tracker keeps one pinned "Funding Board" message that is edited in place instead of posting a new embed per update.
+  FUNDING_BOARD: z.string().optional().default('false'),
+  // Warn in the funding channel when the run rate projects a shortfall above this percentage of the remaining total (0 disables).
+  FUNDING_SHORTFALL_WARNING_PERCENT: z.coerce.number().nonnegative().optional().default(10),
+  // Remaining-total milestones to celebrate, as percentages of the period's starting total (comma-separated; empty disables).
+  FUNDING_MILESTONE_PERCENTS: z.string().optional().default('75,50,25,0'),
 
   // Shift check-in flow (all optional with sane defaults)
   CHATTER_USER_IDS: z.string().optional().default(''),
@@ -62,6 +91,33 @@ export function getStaffUserIds(env: Env): string[] {
   return staffIds;
 }
 
+export function getFundingUploaderRoleIds(env: Env): string[] {
+  if (!env.FUNDING_UPLOADER_ROLE_IDS) return [];
+  return env.FUNDING_UPLOADER_ROLE_IDS.split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** "GBP/USD=1.27,EUR/USD=1.08" -> rates, skipping malformed pairs and non-positive rates. */
+export function getFundingExchangeRates(env: Env): { from: string; to: string; rate: number }[] {
+  if (!env.FUNDING_EXCHANGE_RATES) return [];
+  return env.FUNDING_EXCHANGE_RATES.split(',')
+    .map((s) => /^\s*([A-Za-z]{3})\s*\/\s*([A-Za-z]{3})\s*=\s*([\d.]+)\s*$/.exec(s))
+    .filter((m): m is RegExpExecArray => m !== null && Number(m[3]) > 0)
+    .map((m) => ({ from: m[1].toUpperCase(), to: m[2].toUpperCase(), rate: Number(m[3]) }));
+}
+
+/** Milestone percentages, highest first, ignoring anything outside 0–100. */
+export function getFundingMilestonePercents(env: Env): number[] {
+  if (!env.FUNDING_MILESTONE_PERCENTS) return [];
+  const percents = env.FUNDING_MILESTONE_PERCENTS.split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map(Number)
+    .filter((n) => Number.isFinite(n) && n >= 0 && n <= 100);
+  return [...new Set(percents)].sort((a, b) => b - a);
+}
+
 export function getStaffRoleIds(env: Env): string[] {
   if (!env.STAFF_ROLE_IDS) return [];
   return env.STAFF_ROLE_IDS.split(',')
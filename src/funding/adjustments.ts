@@ -0,0 +1,149 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { fundingAdjustments } from '../db/index.js';
+import { getShiftConfig } from '../shiftConfig.js';
+import { formatPence, type CurrencyCode } from './money.js';
+import { sanitizeEmbedText } from './render.js';
+import type { FundingTracker } from './trackers.js';
+import { getEndOfWeekIso, getUkShiftInfo } from './ukTime.js';
+
+// 4 rows of 5 void buttons fit in one message.
+const MAX_VOID_BUTTONS = 20;
+const LIST_LIMIT = 25;
+
+export type FundingAdjustment = Awaited<ReturnType<typeof fundingAdjustments.create>>;
+
+async function todayIso(guildId: string): Promise<string> {
+  return getUkShiftInfo(new Date(), await getShiftConfig(guildId)).shiftDayIsoDate;
+}
+
+/** Entries count until voided, and until the end of their expiry day when they expire at end of week. */
+export function isAdjustmentActive(adjustment: FundingAdjustment, today: string): boolean {
+  if (adjustment.voidedAt) return false;
+  return !adjustment.expiresOn || adjustment.expiresOn >= today;
+}
+
+/** The current manual adjustment: the sum of all active ledger entries. */
+export async function getCurrentAdjustmentPence(guildId: string, trackerId: string): Promise<number> {
+  const today = await todayIso(guildId);
+  const entries = await fundingAdjustments.findMany({ where: { guildId, trackerId, voided: false }, take: 1000 });
+  return entries.filter((a) => isAdjustmentActive(a, today)).reduce((sum, a) => sum + a.amountPence, 0);
+}
+
+export async function recordFundingAdjustment(input: {
+  guildId: string;
+  trackerId: string;
+  amountPence: number;
+  reason: string | null;
+  userId: string;
+  expiresEndOfWeek?: boolean;
+}): Promise<FundingAdjustment> {
+  return fundingAdjustments.create({
+    guildId: input.guildId,
+    trackerId: input.trackerId,
+    amountPence: input.amountPence,
+    reason: input.reason,
+    createdBy: input.userId,
+    expiresOn: input.expiresEndOfWeek ? getEndOfWeekIso(await todayIso(input.guildId)) : null,
+  });
+}
+
+/** Void every active entry (the old "reset adjustment"). Returns how many were voided. */
+export async function voidAllFundingAdjustments(guildId: string, trackerId: string, userId: string): Promise<number> {
+  const today = await todayIso(guildId);
+  const active = (
+    await fundingAdjustments.findMany({ where: { guildId, trackerId, voided: false }, take: 1000 })
+  ).filter((a) => isAdjustmentActive(a, today));
+  for (const a of active) await fundingAdjustments.void({ where: { id: a.id }, data: { voidedBy: userId } });
+  return active.length;
+}
+
+/** Void one entry. Returns the voided entry, or null when it does not exist, belongs elsewhere or was already voided. */
+export async function voidFundingAdjustment(guildId: string, id: string, userId: string) {
+  const entry = await fundingAdjustments.findUnique({ where: { id } });
+  if (!entry || entry.guildId !== guildId) return null;
+  return fundingAdjustments.void({ where: { id }, data: { voidedBy: userId } });
+}
+
+export function describeAdjustmentAmount(amountPence: number, currency: CurrencyCode = 'USD'): string {
+  return `${amountPence >= 0 ? '+' : '−'}${formatPence(Math.abs(amountPence), currency)}`;
+}
+
+export async function buildAdjustmentsMessage(tracker: FundingTracker, showAll: boolean) {
+  const { guildId, currency } = tracker;
+  const today = await todayIso(guildId);
+  const activeEntries = await fundingAdjustments.findMany({
+    where: { guildId, trackerId: tracker.id, voided: false },
+    take: 1000,
+  });
+  const active = activeEntries.filter((a) => isAdjustmentActive(a, today));
+  // The total always covers every active entry; showAll only changes which rows are listed.
+  const listed = showAll
+    ? await fundingAdjustments.findMany({ where: { guildId, trackerId: tracker.id }, take: LIST_LIMIT })
+    : active.slice(0, LIST_LIMIT);
+  const totalPence = active.reduce((sum, a) => sum + a.amountPence, 0);
+
+  const lines = listed.map((a, i) => {
+    const when = Math.floor(new Date(a.createdAt).getTime() / 1000);
+    const status = a.voidedAt
+      ? ` • ~~voided~~ by <@${a.voidedBy}>`
+      : a.expiresOn && a.expiresOn < today
+        ? ` • expired ${a.expiresOn}`
+        : a.expiresOn
+          ? ` • until ${a.expiresOn}`
+          : '';
+    const amount = describeAdjustmentAmount(a.amountPence, currency);
+    return `\`${i + 1}\` **${a.voidedAt ? `~~${amount}~~` : amount}** ${a.reason ? `– ${a.reason}` : ''}\n   <@${a.createdBy}> <t:${when}:R>${status}`;
+  });
+
+  const voidable = listed
+    .map((a, i) => ({ a, i }))
+    .filter(({ a }) => isAdjustmentActive(a, today))
+    .slice(0, MAX_VOID_BUTTONS);
+  const components: any[] = [];
+  for (let i = 0; i < voidable.length; i += 5) {
+    components.push({
+      type: 1,
+      components: voidable.slice(i, i + 5).map(({ a, i: index }) => ({
+        type: 2,
+        style: 4, // Danger button
+        custom_id: `funding_adjustment_void_${a.id}`,
+        label: `Void ${index + 1}`,
+      })),
+    });
+  }
+
+  return {
+    embeds: [
+      {
+        title: `🧾 Funding Adjustments • ${tracker.name}`,
+        description: lines.length
+          ? sanitizeEmbedText(lines.join('\n'), 4000)
+          : showAll
+            ? 'No adjustments have been recorded yet.'
+            : 'No active adjustments. Use `/funding update add:` or `remove:` to add one.',
+        fields: [
+          {
+            name: 'Current adjustment',
+            value: `**${describeAdjustmentAmount(totalPence, currency)}** from ${active.length} active entr${active.length === 1 ? 'y' : 'ies'}`,
+            inline: false,
+          },
+        ],
+        color: 0x5865f2,
+        footer: { text: showAll ? `Latest ${LIST_LIMIT} entries, including voided and expired` : 'Active entries' },
+      },
+    ],
+    components,
+  };
+}
+
+export async function handleFundingAdjustmentsCommand(interaction: ChatInputCommandInteraction, tracker: FundingTracker) {
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+  try {
+    const showAll = interaction.options.getBoolean('show_all') ?? false;
+    await interaction.editReply(await buildAdjustmentsMessage(tracker, showAll));
+  } catch (error: any) {
+    console.error('Error handling /funding adjustments:', error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to load adjustments'}` });
+  }
+}
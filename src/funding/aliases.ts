@@ -0,0 +1,194 @@
+import { randomUUID } from 'node:crypto';
+import type { ButtonInteraction, ChatInputCommandInteraction } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { fundingRowAliases } from '../db/index.js';
+import { editDistance, normalizeRowName } from './parseNeeded.js';
+import { sanitizeEmbedText } from './render.js';
+
+// A suggestion needs at most 2 edits and no more than one edit per 3 characters ("Ma1sie" yes, "Alice"/"Alina" no).
+const SUGGESTION_MAX_DISTANCE = 2;
+const SUGGESTION_MIN_LENGTH = 4;
+const MAX_SUGGESTIONS = 5;
+const SUGGESTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+type AliasSuggestion = {
+  id: string;
+  guildId: string;
+  alias: string;
+  canonicalName: string;
+  createdAt: number;
+};
+
+// Suggestions are only offered on the upload message; after a restart the buttons simply expire.
+const suggestions = new Map<string, AliasSuggestion>();
+
+function pruneExpiredSuggestions() {
+  const now = Date.now();
+  for (const [id, s] of suggestions) {
+    if (now - s.createdAt > SUGGESTION_TTL_MS) suggestions.delete(id);
+  }
+}
+
+/** normalizeRowName(variant) -> canonical name, ready for extractNeededValuesFromWords. Never throws. */
+export async function loadRowAliases(guildId: string): Promise<Map<string, string>> {
+  try {
+    const aliases = await fundingRowAliases.findMany({ where: { guildId } });
+    return new Map(aliases.map((a) => [a.aliasKey, a.canonicalName]));
+  } catch (error) {
+    console.error('[Funding] Failed to load row aliases:', error);
+    return new Map();
+  }
+}
+
+/** Suggest aliases for row names that are a small typo away from a name we already know. */
+export function suggestRowAliases(guildId: string, rows: { name: string }[], knownNames: string[]): AliasSuggestion[] {
+  pruneExpiredSuggestions();
+  const known = new Map<string, string>();
+  for (const name of knownNames) {
+    const key = normalizeRowName(name);
+    if (key) known.set(key, name);
+  }
+
+  const result: AliasSuggestion[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = normalizeRowName(row.name);
+    if (!key || key.length < SUGGESTION_MIN_LENGTH || known.has(key) || seen.has(key)) continue;
+    seen.add(key);
+
+    const maxDistance = Math.min(SUGGESTION_MAX_DISTANCE, Math.floor(key.length / 3));
+    let best: { name: string; distance: number } | null = null;
+    let ambiguous = false;
+    for (const [knownKey, knownName] of known) {
+      const distance = editDistance(key, knownKey);
+      if (distance > maxDistance) continue;
+      if (best && distance === best.distance) ambiguous = true;
+      if (!best || distance < best.distance) {
+        best = { name: knownName, distance };
+        ambiguous = false;
+      }
+    }
+    if (!best || ambiguous) continue;
+
+    const suggestion: AliasSuggestion = {
+      id: randomUUID().slice(0, 8),
+      guildId,
+      alias: row.name,
+      canonicalName: best.name,
+      createdAt: Date.now(),
+    };
+    suggestions.set(suggestion.id, suggestion);
+    result.push(suggestion);
+    if (result.length >= MAX_SUGGESTIONS) break;
+  }
+  return result;
+}
+
+export function buildAliasSuggestionMessageParts(list: AliasSuggestion[]) {
+  const field = {
+    name: '🔤 Possible name variants',
+    value: sanitizeEmbedText(
+      list.map((s) => `**${s.alias}** looks like **${s.canonicalName}**`).join('\n') +
+        '\nAccept to merge them in future uploads.',
+    ),
+    inline: false,
+  };
+  const row = {
+    type: 1,
+    components: list.map((s) => {
+      const label = `"${s.alias}" → ${s.canonicalName}`;
+      return {
+        type: 2,
+        style: 2, // Secondary button
+        custom_id: `funding_alias_accept_${s.id}`,
+        label: label.length > 80 ? label.slice(0, 79) + '…' : label,
+      };
+    }),
+  };
+  return { field, row };
+}
+
+async function saveAlias(guildId: string, alias: string, canonical: string, userId: string): Promise<string> {
+  const aliasKey = normalizeRowName(alias);
+  const canonicalName = canonical.trim().replace(/\s+/g, ' ');
+  if (!aliasKey || !canonicalName) return '❌ Both the variant and the canonical name are required.';
+  if (aliasKey === normalizeRowName(canonicalName)) {
+    return '❌ That variant already matches the canonical name; no alias is needed.';
+  }
+
+  // Keep the table one level deep: pointing at another alias points at its canonical name instead.
+  const existing = await fundingRowAliases.findMany({ where: { guildId } });
+  const target = existing.find((a) => a.aliasKey === normalizeRowName(canonicalName))?.canonicalName ?? canonicalName;
+  if (existing.some((a) => normalizeRowName(a.canonicalName) === aliasKey)) {
+    return `❌ **${alias}** is already used as a canonical name. Remove its aliases first.`;
+  }
+
+  await fundingRowAliases.upsert({ guildId, aliasKey, alias: alias.trim(), canonicalName: target, createdBy: userId });
+  return `✅ Rows read as **${alias.trim()}** will now be counted as **${target}**.`;
+}
+
+export async function handleFundingAliasCommand(interaction: ChatInputCommandInteraction) {
+  const sub = interaction.options.getSubcommand();
+  const guildId = interaction.guildId!;
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    if (sub === 'add') {
+      const variant = interaction.options.getString('variant', true);
+      const canonical = interaction.options.getString('canonical', true);
+      await interaction.editReply({ content: await saveAlias(guildId, variant, canonical, interaction.user.id) });
+      return;
+    }
+
+    if (sub === 'remove') {
+      const variant = interaction.options.getString('variant', true);
+      const removed = await fundingRowAliases.delete({ where: { guildId, aliasKey: normalizeRowName(variant) } });
+      await interaction.editReply({
+        content: removed > 0 ? `✅ Alias **${variant}** removed.` : `No alias found for **${variant}**.`,
+      });
+      return;
+    }
+
+    if (sub === 'list') {
+      const aliases = await fundingRowAliases.findMany({ where: { guildId } });
+      const byCanonical = new Map<string, string[]>();
+      for (const a of aliases) {
+        byCanonical.set(a.canonicalName, [...(byCanonical.get(a.canonicalName) ?? []), a.alias]);
+      }
+      const lines = [...byCanonical.entries()].map(([canonical, variants]) => `**${canonical}** ← ${variants.join(', ')}`);
+      await interaction.editReply({
+        embeds: [
+          {
+            title: '🔤 Funding Row Aliases',
+            description: lines.length
+              ? sanitizeEmbedText(lines.join('\n'), 4000)
+              : 'No aliases yet. Use `/funding alias add` or accept a suggestion on an upload.',
+            color: 0x5865f2,
+            footer: { text: `${aliases.length} alias(es)` },
+          },
+        ],
+      });
+      return;
+    }
+  } catch (error: any) {
+    console.error('Error handling /funding alias:', error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to update aliases'}` });
+  }
+}
+
+export async function handleFundingAliasButton(interaction: ButtonInteraction) {
+  const id = interaction.customId.replace('funding_alias_accept_', '');
+  pruneExpiredSuggestions();
+  const suggestion = suggestions.get(id);
+  if (!suggestion || suggestion.guildId !== interaction.guildId) {
+    await interaction.reply({
+      content: 'This suggestion has expired or was already handled. Use `/funding alias add` instead.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  suggestions.delete(id);
+  const content = await saveAlias(suggestion.guildId, suggestion.alias, suggestion.canonicalName, interaction.user.id);
+  await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+}
@@ -0,0 +1,144 @@
+import type { Client } from 'discord.js';
+import { fundingShiftReports, fundingUpdatesHistory, prisma } from '../db/index.js';
+import { getEnv } from '../env.js';
+import { getShiftConfig } from '../shiftConfig.js';
+import { describeConverted, formatPence } from './money.js';
+import { filterShiftsForTracker } from './shiftScope.js';
+import { getCurrentFundingTargets, getFundingChannel } from './targets.js';
+import { getReportConversion, listAllTrackers, type FundingTracker } from './trackers.js';
+import { getShiftStartedAt, getUkShiftInfo } from './ukTime.js';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+// After a restart or outage, a shift is still announced if it started this recently.
+const ANNOUNCE_WINDOW_MS = 15 * 60 * 1000;
+// Only compare against the previous report when it belongs to the shift that just ended.
+const MAX_PREVIOUS_SHIFT_AGE_MS = 24 * 60 * 60 * 1000;
+
+export function startFundingShiftAnnouncer(client: Client) {
+  setInterval(async () => {
+    try {
+      await announceShiftStart(client);
+    } catch (error) {
+      console.error('Error in funding shift announcer:', error);
+    }
+  }, CHECK_INTERVAL_MS);
+
+  announceShiftStart(client).catch((error) => {
+    console.error('Error in initial funding shift announcer run:', error);
+  });
+}
+
+type ShiftReport = NonNullable<Awaited<ReturnType<typeof fundingShiftReports.create>>>;
+
+async function describePreviousShift(
+  tracker: FundingTracker,
+  previous: ShiftReport,
+  tableTotalNowPence: number,
+): Promise<string> {
+  const fmt = (pence: number) => formatPence(pence, tracker.currency);
+  const [lastUpload] = await fundingUpdatesHistory.findMany({
+    where: { guildId: tracker.guildId, trackerId: tracker.id, commandType: 'text_command' },
+    take: 1,
+  });
+  if (!lastUpload || new Date(lastUpload.calculatedAt) < new Date(previous.startedAt)) {
+    return `No table was uploaded during the ${previous.shiftName} shift, so its progress is unknown.`;
+  }
+
+  const achievedPence = previous.tableTotalAtStartPence - tableTotalNowPence;
+  if (achievedPence <= 0) {
+    return `The table total did not come down (target was **${fmt(previous.targetPence)}**).`;
+  }
+  const percent = previous.targetPence > 0 ? Math.round((achievedPence / previous.targetPence) * 100) : 100;
+  const verdict =
+    achievedPence >= previous.targetPence
+      ? `✅ target hit (${percent}%)`
+      : `❌ ${fmt(previous.targetPence - achievedPence)} short (${percent}%)`;
+  return `Brought the table down by **${fmt(achievedPence)}** against a **${fmt(previous.targetPence)}** target: ${verdict}`;
+}
+
+async function announceShiftStart(client: Client) {
+  const env = getEnv();
+  if (env.FUNDING_SHIFT_ANNOUNCEMENTS !== 'true') return;
+
+  for (const tracker of await listAllTrackers(client)) {
+    try {
+      await announceTrackerShiftStart(client, tracker);
+    } catch (error) {
+      console.error(`Error announcing shift start for funding tracker ${tracker.name}:`, error);
+    }
+  }
+}
+
+async function announceTrackerShiftStart(client: Client, tracker: FundingTracker) {
+  const channel = await getFundingChannel(client, tracker);
+  if (!channel) return;
+  const { guildId } = tracker;
+
+  const now = new Date();
+  const config = await getShiftConfig(guildId);
+  const startedAt = getShiftStartedAt(now, config);
+  if (now.getTime() - startedAt.getTime() > ANNOUNCE_WINDOW_MS) return;
+
+  const calc = await getCurrentFundingTargets(tracker, now);
+  if (!calc) return; // nothing uploaded yet
+  const info = getUkShiftInfo(now, config);
+  const target = calc.shiftTargets[0]; // the current shift is first among the remaining ones
+
+  const [previous] = await fundingShiftReports.findMany({ where: { guildId, trackerId: tracker.id }, take: 1 });
+  // Claim the shift before posting, so a restart or a second instance cannot announce it twice.
+  const report = await fundingShiftReports.create({
+    guildId,
+    trackerId: tracker.id,
+    shiftDayIsoDate: info.shiftDayIsoDate,
+    shiftName: info.currentShift,
+    startedAt: startedAt.toISOString(),
+    tableTotalAtStartPence: calc.parsedTotalPence,
+    targetPence: target.pence,
+  });
+  if (!report) return;
+
+  const fmt = (pence: number) => formatPence(pence, tracker.currency);
+  const conversion = getReportConversion(tracker);
+  const amount = (pence: number) => `**${fmt(pence)}**${describeConverted(pence, conversion)}`;
+  const fields = [
+    { name: '💰 Remaining', value: amount(calc.remainingPence), inline: true },
+    { name: '📅 Days left', value: `**${calc.daysLeft}**`, inline: true },
+    { name: '🎯 Daily target', value: amount(calc.dailyTargetPence), inline: true },
+    {
+      name: `⏱️ ${info.currentShift} shift target`,
+      value:
+        target.pence === calc.perShiftPence
+          ? amount(target.pence)
+          : `${amount(target.pence)} (×${target.weight.toFixed(2)}; even split ${fmt(calc.perShiftPence)})`,
+      inline: false,
+    },
+  ];
+  const previousIsAdjacent =
+    previous && startedAt.getTime() - new Date(previous.startedAt).getTime() <= MAX_PREVIOUS_SHIFT_AGE_MS;
+  if (previousIsAdjacent) {
+    fields.push({
+      name: `📈 Last shift (${previous.shiftName})`,
+      value: await describePreviousShift(tracker, previous, calc.parsedTotalPence),
+      inline: false,
+    });
+  }
+
+  const activeShifts = await filterShiftsForTracker(client, tracker, await prisma.shift.findMany({ where: { endTimeIsNull: true } }));
+  const onShiftUserIds = [...new Set(activeShifts.map((s) => s.userId))];
+
+  await channel.send({
+    content: onShiftUserIds.length
+      ? `🕒 **${info.currentShift}** shift has started: ${onShiftUserIds.map((id) => `<@${id}>`).join(' ')}`
+      : `🕒 **${info.currentShift}** shift has started.`,
+    embeds: [
+      {
+        title: `🕒 ${info.currentShift} Shift Targets • ${tracker.name}`,
+        fields,
+        color: 0x5865f2,
+        footer: { text: `Shift day ${info.shiftDayIsoDate} • Based on the last uploaded table` },
+        timestamp: now.toISOString(),
+      },
+    ],
+    allowedMentions: { users: onShiftUserIds },
+  });
+}
@@ -0,0 +1,146 @@
+import type { Client } from 'discord.js';
+import { fundingBoards, fundingUpdatesHistory, type FundingHistoryCommandType } from '../db/index.js';
+import { getEnv } from '../env.js';
+import { getShiftConfig } from '../shiftConfig.js';
+import { getFundingPace } from './forecast.js';
+import { buildFundingEmbed, getCurrentFundingTargets, getFundingChannel } from './targets.js';
+import { getReportConversion, listAllTrackers, type FundingTracker } from './trackers.js';
+import { getShiftStartedAt } from './ukTime.js';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const BOARD_TOP_ROWS = 8;
+
+// Board writes for one tracker run one after another, so a burst of updates never posts two boards.
+const pendingWrites = new Map<string, Promise<void>>();
+// The shift each board was last drawn for, so it is redrawn once when the next shift starts.
+const drawnForShift = new Map<string, number>();
+
+export function isFundingBoardEnabled(): boolean {
+  return getEnv().FUNDING_BOARD === 'true';
+}
+
+function boardKey(tracker: FundingTracker): string {
+  return `${tracker.guildId}:${tracker.id}`;
+}
+
+/**
+ * Edit the tracker's pinned board message, or post and pin a new one when there is none yet or it
+ * was deleted. Never throws.
+ */
+export function writeFundingBoard(client: Client, tracker: FundingTracker, payload: { embeds: any[] }): Promise<void> {
+  const key = boardKey(tracker);
+  const write = (pendingWrites.get(key) ?? Promise.resolve())
+    .then(() => writeBoardMessage(client, tracker, payload))
+    .catch((error) => console.error(`[Funding] Failed to update the ${tracker.name} funding board:`, error));
+  pendingWrites.set(key, write);
+  write.finally(() => {
+    if (pendingWrites.get(key) === write) pendingWrites.delete(key);
+  });
+  return write;
+}
+
+async function writeBoardMessage(client: Client, tracker: FundingTracker, payload: { embeds: any[] }) {
+  const channel = await getFundingChannel(client, tracker);
+  if (!channel) return;
+
+  const saved = await fundingBoards.findUnique({ where: { guildId: tracker.guildId, trackerId: tracker.id } });
+  if (saved && saved.channelId === channel.id) {
+    const existing = await channel.messages.fetch(saved.messageId).catch(() => null);
+    if (existing) {
+      await existing.edit(payload);
+      return;
+    }
+  }
+
+  const message = await channel.send(payload);
+  await message.pin().catch((error) => console.error('[Funding] Could not pin the funding board (needs Manage Messages):', error));
+  await fundingBoards.upsert({
+    guildId: tracker.guildId,
+    trackerId: tracker.id,
+    channelId: channel.id,
+    messageId: message.id,
+  });
+}
+
+/** Whether a message is the tracker's board, so its deletion can be answered by posting it again. */
+export async function isFundingBoardMessage(tracker: FundingTracker, messageId: string): Promise<boolean> {
+  if (!isFundingBoardEnabled()) return false;
+  const saved = await fundingBoards.findUnique({ where: { guildId: tracker.guildId, trackerId: tracker.id } });
+  return saved?.messageId === messageId;
+}
+
+const UPDATE_KIND_LABELS: Record<FundingHistoryCommandType, string> = {
+  text_command: 'upload',
+  slash_command: '/funding update',
+  rollback: 'rollback',
+};
+
+/**
+ * Redraw the tracker's pinned Funding Board from its stored state: the current targets, the rows
+ * with the most left to raise, pace and who last changed it. No-op with FUNDING_BOARD off or before
+ * the first upload. Never throws.
+ */
+export async function refreshFundingBoard(client: Client, tracker: FundingTracker) {
+  if (!isFundingBoardEnabled()) return;
+  try {
+    const calc = await getCurrentFundingTargets(tracker);
+    if (!calc) return;
+
+    const recent = await fundingUpdatesHistory.findMany({
+      where: { guildId: tracker.guildId, trackerId: tracker.id },
+      take: 10,
+    });
+    const latest = recent[0];
+    // Recalculations without a new table keep no rows of their own; show those of the last table.
+    const rows = recent.find((entry) => entry.parsedRows.length > 0)?.parsedRows ?? [];
+    const outstanding = rows.filter((r) => r.neededPence !== null && r.neededPence > 0);
+    const top = [...outstanding].sort((a, b) => b.neededPence! - a.neededPence!).slice(0, BOARD_TOP_ROWS);
+
+    const embed = buildFundingEmbed({
+      calc,
+      rows: top,
+      currency: tracker.currency,
+      conversion: getReportConversion(tracker),
+      title: `📌 Funding Board: ${tracker.name}`,
+      rowsTitle: `📋 Top outstanding (${top.length} of ${outstanding.length})`,
+      historyId: latest?.id ?? null,
+      pace: await getFundingPace(tracker.guildId, tracker.id, calc),
+    });
+    if (latest) {
+      const when = Math.floor(new Date(latest.calculatedAt).getTime() / 1000);
+      embed.description = `Last ${UPDATE_KIND_LABELS[latest.commandType] ?? 'update'} <t:${when}:R> by <@${latest.userId}>`;
+    }
+    await writeFundingBoard(client, tracker, { embeds: [embed] });
+  } catch (error) {
+    console.error(`[Funding] Failed to refresh the ${tracker.name} funding board:`, error);
+  }
+}
+
+/**
+ * Redraw every board when a shift starts (the per-shift target and current shift change). The
+ * first run after startup redraws all of them, which also brings back boards deleted while offline.
+ */
+export function startFundingBoardRefresher(client: Client) {
+  setInterval(async () => {
+    try {
+      await refreshBoardsForNewShift(client);
+    } catch (error) {
+      console.error('Error in funding board refresher:', error);
+    }
+  }, CHECK_INTERVAL_MS);
+
+  refreshBoardsForNewShift(client).catch((error) => {
+    console.error('Error in initial funding board refresh:', error);
+  });
+}
+
+async function refreshBoardsForNewShift(client: Client) {
+  if (!isFundingBoardEnabled()) return;
+
+  for (const tracker of await listAllTrackers(client)) {
+    const shiftStartedAt = getShiftStartedAt(new Date(), await getShiftConfig(tracker.guildId)).getTime();
+    if (drawnForShift.get(boardKey(tracker)) === shiftStartedAt) continue;
+    drawnForShift.set(boardKey(tracker), shiftStartedAt);
+    await refreshFundingBoard(client, tracker);
+  }
+}
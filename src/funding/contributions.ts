@@ -0,0 +1,176 @@
+import type { ChatInputCommandInteraction, Client } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { fundingContributions, fundingPeriods, prisma } from '../db/index.js';
+import { formatPence } from './money.js';
+import { sanitizeEmbedText } from './render.js';
+import { filterShiftsForTracker } from './shiftScope.js';
+import type { FundingTracker } from './trackers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LISTED_CHATTERS = 25;
+
+export type ContributionPeriod = 'period' | '7d' | '30d' | 'all';
+
+type ShiftSpan = { userId: string; startTime: string; endTime: string | null };
+
+export type ContributionShare = { userId: string; amountPence: number; overlapMinutes: number };
+
+/**
+ * Share a drop in the table total between the chatters on shift during [from, to], in proportion
+ * to their time on shift in that interval. Whole pennies are handed out by largest remainder so the
+ * shares add up to the drop exactly. Empty when nobody was on shift.
+ */
+export function apportionFundingDrop(dropPence: number, shifts: ShiftSpan[], from: Date, to: Date): ContributionShare[] {
+  if (dropPence <= 0 || to <= from) return [];
+
+  const minutesByUser = new Map<string, number>();
+  for (const shift of shifts) {
+    const start = Math.max(new Date(shift.startTime).getTime(), from.getTime());
+    const end = Math.min(shift.endTime ? new Date(shift.endTime).getTime() : to.getTime(), to.getTime());
+    if (end <= start) continue;
+    minutesByUser.set(shift.userId, (minutesByUser.get(shift.userId) ?? 0) + (end - start) / 60_000);
+  }
+  const totalMinutes = [...minutesByUser.values()].reduce((sum, m) => sum + m, 0);
+  if (totalMinutes <= 0) return [];
+
+  const shares = [...minutesByUser].map(([userId, minutes]) => {
+    const exact = (dropPence * minutes) / totalMinutes;
+    return { userId, amountPence: Math.floor(exact), remainder: exact - Math.floor(exact), overlapMinutes: Math.round(minutes) };
+  });
+  let leftOver = dropPence - shares.reduce((sum, s) => sum + s.amountPence, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftOver <= 0) break;
+    share.amountPence++;
+    leftOver--;
+  }
+  return shares
+    .filter((s) => s.amountPence > 0)
+    .map(({ userId, amountPence, overlapMinutes }) => ({ userId, amountPence, overlapMinutes }));
+}
+
+/**
+ * Record who is credited with the drop between the previous upload and this one. Only uploads
+ * that bring the table total down are shared out, and only between chatters on the tracker's
+ * channel. Never throws.
+ */
+export async function recordFundingContributions(client: Client, input: {
+  tracker: FundingTracker;
+  historyId: string;
+  previous: { calculatedAt: string; parsedTotalPence: number };
+  parsedTotalPence: number;
+  now?: Date;
+}) {
+  const { tracker } = input;
+  const dropPence = input.previous.parsedTotalPence - input.parsedTotalPence;
+  if (dropPence <= 0) return;
+
+  const from = new Date(input.previous.calculatedAt);
+  const to = input.now ?? new Date();
+  try {
+    const shifts = await filterShiftsForTracker(
+      client,
+      tracker,
+      await prisma.shift.findMany({ where: { startTimeLt: to.toISOString(), endTimeGtOrNull: from.toISOString() } }),
+    );
+    const shares = apportionFundingDrop(dropPence, shifts, from, to);
+    if (shares.length === 0) {
+      console.log(`[Funding] Nobody was on shift for the ${formatPence(dropPence, tracker.currency)} drop on ${tracker.name}`);
+      return;
+    }
+    await fundingContributions.createMany(
+      shares.map((share) => ({
+        guildId: tracker.guildId,
+        trackerId: tracker.id,
+        historyId: input.historyId,
+        ...share,
+        intervalStart: from.toISOString(),
+        intervalEnd: to.toISOString(),
+      })),
+    );
+  } catch (error) {
+    console.error('[Funding] Failed to record contributions:', error);
+  }
+}
+
+/**
+ * Remove the credits a rollback undoes: every drop measured after the entry that is current again.
+ * The next upload measures its drop from the rollback, so keeping them would credit the same drop
+ * twice. Never throws.
+ */
+export async function removeRolledBackContributions(tracker: FundingTracker, restoredAt: string) {
+  try {
+    const removed = await fundingContributions.deleteMany({
+      where: { guildId: tracker.guildId, trackerId: tracker.id, intervalEndGt: restoredAt },
+    });
+    if (removed > 0) console.log(`[Funding] Removed ${removed} contribution credit(s) undone by a rollback on ${tracker.name}`);
+  } catch (error) {
+    console.error('[Funding] Failed to remove rolled-back contributions:', error);
+  }
+}
+
+async function getPeriodStart(tracker: FundingTracker, period: ContributionPeriod): Promise<Date | null> {
+  if (period === '7d') return new Date(Date.now() - 7 * DAY_MS);
+  if (period === '30d') return new Date(Date.now() - 30 * DAY_MS);
+  if (period === 'all') return null;
+  const current = await fundingPeriods.findUnique({ where: { guildId: tracker.guildId, trackerId: tracker.id } });
+  // Before the first milestone check there is no period yet; a week is the usual length of one.
+  return current ? new Date(current.startedAt) : new Date(Date.now() - 7 * DAY_MS);
+}
+
+const PERIOD_LABELS: Record<ContributionPeriod, string> = {
+  period: 'this funding period',
+  '7d': 'the last 7 days',
+  '30d': 'the last 30 days',
+  all: 'all time',
+};
+
+export async function handleFundingContributionsCommand(interaction: ChatInputCommandInteraction, tracker: FundingTracker) {
+  const period = (interaction.options.getString('period') ?? 'period') as ContributionPeriod;
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    const since = await getPeriodStart(tracker, period);
+    const entries = await fundingContributions.findMany({
+      where: { guildId: tracker.guildId, trackerId: tracker.id, intervalEndGte: since?.toISOString() ?? null },
+    });
+
+    const byUser = new Map<string, { amountPence: number; overlapMinutes: number }>();
+    for (const entry of entries) {
+      const total = byUser.get(entry.userId) ?? { amountPence: 0, overlapMinutes: 0 };
+      total.amountPence += entry.amountPence;
+      total.overlapMinutes += entry.overlapMinutes;
+      byUser.set(entry.userId, total);
+    }
+    const ranked = [...byUser].sort((a, b) => b[1].amountPence - a[1].amountPence);
+    const totalPence = ranked.reduce((sum, [, t]) => sum + t.amountPence, 0);
+    const uploads = new Set(entries.map((e) => e.historyId)).size;
+
+    const fmt = (pence: number) => formatPence(pence, tracker.currency);
+    const lines = ranked.slice(0, MAX_LISTED_CHATTERS).map(([userId, t], i) => {
+      const percent = totalPence > 0 ? Math.round((t.amountPence / totalPence) * 100) : 0;
+      return `${i + 1}. <@${userId}> **${fmt(t.amountPence)}** (${percent}% • ${(t.overlapMinutes / 60).toFixed(1)}h on shift)`;
+    });
+    if (ranked.length > MAX_LISTED_CHATTERS) lines.push(`…and ${ranked.length - MAX_LISTED_CHATTERS} more`);
+
+    await interaction.editReply({
+      embeds: [
+        {
+          title: `🤝 Funding Contributions • ${tracker.name}`,
+          description: sanitizeEmbedText(
+            ranked.length === 0
+              ? `No drops in the table total have been credited for ${PERIOD_LABELS[period]}.`
+              : `**${fmt(totalPence)}** brought down over ${uploads} upload(s) in ${PERIOD_LABELS[period]}.\n\n${lines.join('\n')}`,
+            4000,
+          ),
+          color: 0x5865f2,
+          footer: {
+            text: 'Estimates: each drop between two uploads is shared by time on shift in between.',
+          },
+        },
+      ],
+    });
+  } catch (error: any) {
+    console.error('Error handling /funding contributions:', error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to load funding contributions'}` });
+  }
+}
@@ -0,0 +1,118 @@
+import { formatPence, type CurrencyCode } from './money.js';
+import { normalizeRowName, type NeededRow } from './parseNeeded.js';
+import { sanitizeEmbedText } from './render.js';
+
+type DiffRow = Pick<NeededRow, 'name' | 'neededPence'>;
+
+export type FundingRowChange = {
+  name: string;
+  previousPence: number;
+  currentPence: number;
+  deltaPence: number;
+};
+
+export type FundingRowDiff = {
+  changed: FundingRowChange[];
+  added: DiffRow[];
+  removed: DiffRow[];
+  reachedZero: string[];
+  unchangedCount: number;
+  previousTotalPence: number;
+  currentTotalPence: number;
+};
+
+const MAX_CHANGE_LINES = 12;
+
+function indexRows(rows: DiffRow[]): Map<string, DiffRow> {
+  const byName = new Map<string, DiffRow>();
+  for (const row of rows) {
+    const key = normalizeRowName(row.name);
+    // The first occurrence wins; duplicates are parser noise rather than a second creator.
+    if (key && !byName.has(key)) byName.set(key, row);
+  }
+  return byName;
+}
+
+function sumRows(rows: DiffRow[]): number {
+  return rows.reduce((sum, r) => sum + (r.neededPence ?? 0), 0);
+}
+
+/** Match rows of two uploads by normalised name and describe what moved. */
+export function diffFundingRows(previous: DiffRow[], current: DiffRow[]): FundingRowDiff {
+  const before = indexRows(previous);
+  const after = indexRows(current);
+  const diff: FundingRowDiff = {
+    changed: [],
+    added: [],
+    removed: [],
+    reachedZero: [],
+    unchangedCount: 0,
+    // Every row, duplicates included, so the totals match the table totals the targets use.
+    previousTotalPence: sumRows(previous),
+    currentTotalPence: sumRows(current),
+  };
+
+  for (const [key, row] of after) {
+    const old = before.get(key);
+    if (!old) {
+      diff.added.push(row);
+      continue;
+    }
+    // A row we could not read in either upload tells us nothing about progress.
+    if (old.neededPence === null || row.neededPence === null) continue;
+    if (old.neededPence === row.neededPence) {
+      diff.unchangedCount++;
+      continue;
+    }
+    diff.changed.push({
+      name: row.name,
+      previousPence: old.neededPence,
+      currentPence: row.neededPence,
+      deltaPence: row.neededPence - old.neededPence,
+    });
+    if (row.neededPence === 0 && old.neededPence > 0) diff.reachedZero.push(row.name);
+  }
+  for (const [key, row] of before) {
+    if (!after.has(key)) diff.removed.push(row);
+  }
+
+  diff.changed.sort((a, b) => Math.abs(b.deltaPence) - Math.abs(a.deltaPence));
+  return diff;
+}
+
+function formatDelta(pence: number, currency: CurrencyCode): string {
+  if (pence === 0) return `±${formatPence(0, currency)}`;
+  return `${pence > 0 ? '+' : '−'}${formatPence(Math.abs(pence), currency)}`;
+}
+
+export function hasRowChanges(diff: FundingRowDiff): boolean {
+  return diff.changed.length + diff.added.length + diff.removed.length > 0;
+}
+
+/** Embed field text: "Needed" going down is progress, so negative deltas are listed as good news. */
+export function renderRowDiffForEmbed(diff: FundingRowDiff, currency: CurrencyCode): string {
+  const fmt = (pence: number | null) => (pence === null ? '—' : formatPence(pence, currency));
+  const lines: string[] = [
+    `Table ${fmt(diff.previousTotalPence)} → ${fmt(diff.currentTotalPence)} (${formatDelta(diff.currentTotalPence - diff.previousTotalPence, currency)})`,
+  ];
+
+  const shown = diff.changed.slice(0, MAX_CHANGE_LINES);
+  if (shown.length > 0) {
+    lines.push(
+      shown
+        .map((c) => `${c.deltaPence < 0 ? '📉' : '📈'} **${c.name}** ${formatDelta(c.deltaPence, currency)}`)
+        .join('\n'),
+    );
+    if (diff.changed.length > shown.length) lines.push(`…${diff.changed.length - shown.length} more changed`);
+  }
+  if (diff.reachedZero.length > 0) lines.push(`🎉 Reached zero: ${diff.reachedZero.join(', ')}`);
+  if (diff.added.length > 0) {
+    lines.push(`🆕 New: ${diff.added.map((r) => `${r.name} (${fmt(r.neededPence)})`).join(', ')}`);
+  }
+  if (diff.removed.length > 0) {
+    lines.push(`👋 Gone: ${diff.removed.map((r) => `${r.name} (was ${fmt(r.neededPence)})`).join(', ')}`);
+  }
+  if (diff.unchangedCount > 0) lines.push(`${diff.unchangedCount} row(s) unchanged`);
+
+  return sanitizeEmbedText(lines.join('\n'));
+}
@@ -0,0 +1,91 @@
+import { compareHashes, Jimp } from 'jimp';
+import { fundingUpdatesHistory } from '../db/index.js';
+import { getEnv } from '../env.js';
+import { formatPence, type CurrencyCode } from './money.js';
+import { normalizeRowName, type NeededRow } from './parseNeeded.js';
+
+// How many earlier uploads a new screenshot is compared against.
+const RECENT_UPLOADS_TO_CHECK = 20;
+// compareHashes returns 0 for identical images and ~0.5 for unrelated ones; re-saves and recompressions stay well under this.
+const NEAR_DUPLICATE_DISTANCE = 0.1;
+
+/** Perceptual hash of the original screenshot, or null when the image cannot be decoded. */
+export async function computeImageHash(buffer: Buffer): Promise<string | null> {
+  try {
+    const image = await Jimp.read(buffer);
+    return image.pHash();
+  } catch (error) {
+    console.error('[Funding] Failed to hash image:', error);
+    return null;
+  }
+}
+
+function rowsFingerprint(rows: Pick<NeededRow, 'name' | 'neededPence'>[]): string {
+  return rows
+    .map((r) => `${normalizeRowName(r.name)}=${r.neededPence ?? '?'}`)
+    .sort()
+    .join('|');
+}
+
+/**
+ * Reasons to hold an upload for staff confirmation: the same (or a near-identical) screenshot was
+ * already processed, the table reads exactly like an earlier upload, or the total jumped up.
+ * Returns an empty list when the upload looks fresh. Never throws.
+ */
+export async function findUploadWarnings(
+  upload: { guildId: string; trackerId: string; messageId: string | null; imageHash: string | null; rows: NeededRow[] },
+  currency: CurrencyCode = 'USD',
+): Promise<string[]> {
+  let recent: Awaited<ReturnType<typeof fundingUpdatesHistory.findMany>>;
+  try {
+    recent = await fundingUpdatesHistory.findMany({
+      where: { guildId: upload.guildId, trackerId: upload.trackerId, commandType: 'text_command' },
+      take: RECENT_UPLOADS_TO_CHECK,
+    });
+  } catch (error) {
+    console.error('[Funding] Failed to load recent uploads for duplicate check:', error);
+    return [];
+  }
+  // A re-processed message is compared with everything except its own earlier result.
+  recent = recent.filter((entry) => !upload.messageId || entry.messageId !== upload.messageId);
+  if (recent.length === 0) return [];
+
+  const warnings: string[] = [];
+  const describe = (entry: (typeof recent)[number]) =>
+    `the upload by <@${entry.userId}> <t:${Math.floor(new Date(entry.calculatedAt).getTime() / 1000)}:R> (\`${entry.id.slice(0, 8)}\`)`;
+
+  const totalPence = upload.rows.reduce((sum, r) => sum + (r.neededPence ?? 0), 0);
+
+  if (upload.imageHash) {
+    // pHash only sees layout, so a fresh screenshot of the same table can hash alike; progress lowers the
+    // total, so a lookalike only counts as a re-upload when its total has not gone down.
+    const match = recent
+      .filter((entry) => entry.imageHash && totalPence >= entry.parsedTotalPence)
+      .map((entry) => ({ entry, distance: compareHashes(upload.imageHash!, entry.imageHash!) }))
+      .find((m) => m.distance <= NEAR_DUPLICATE_DISTANCE);
+    if (match) {
+      warnings.push(
+        match.distance === 0
+          ? `🖼️ This is the same screenshot as ${describe(match.entry)}.`
+          : `🖼️ This screenshot is nearly identical to ${describe(match.entry)}.`,
+      );
+    }
+  }
+
+  const fingerprint = rowsFingerprint(upload.rows);
+  const sameParse = recent.find((entry) => entry.parsedRows.length > 0 && rowsFingerprint(entry.parsedRows) === fingerprint);
+  if (sameParse) warnings.push(`📋 Every row reads exactly the same as ${describe(sameParse)}.`);
+
+  const latest = recent[0];
+  const maxRisePercent = getEnv().FUNDING_MAX_TOTAL_RISE_PERCENT;
+  if (latest.parsedTotalPence > 0 && totalPence > latest.parsedTotalPence * (1 + maxRisePercent / 100)) {
+    const risePercent = Math.round(((totalPence - latest.parsedTotalPence) / latest.parsedTotalPence) * 100);
+    warnings.push(
+      `📈 The table total rose from ${formatPence(latest.parsedTotalPence, currency)} to ` +
+        `${formatPence(totalPence, currency)} (+${risePercent}%) since ${describe(latest)}. ` +
+        'Is this an older screenshot, or has a new period started?',
+    );
+  }
+
+  return warnings;
+}
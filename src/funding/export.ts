@@ -0,0 +1,172 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { fundingUpdatesHistory } from '../db/index.js';
+import { formatPence, type CurrencyCode } from './money.js';
+import type { FundingTracker } from './trackers.js';
+
+// Supabase returns at most 1000 rows per request; the export pages through up to MAX_EXPORT_ENTRIES.
+const EXPORT_PAGE_SIZE = 1000;
+const MAX_EXPORT_ENTRIES = 10_000;
+
+type FundingHistoryEntry = Awaited<ReturnType<typeof fundingUpdatesHistory.findMany>>[number];
+
+export type FundingExportFormat = 'csv' | 'json';
+
+const CALCULATION_COLUMNS = [
+  'history_id',
+  'calculated_at',
+  'shift_day',
+  'shift',
+  'type',
+  'user_id',
+  'currency',
+  'table_total_pence',
+  'table_total',
+  'adjustment_pence',
+  'adjustment',
+  'remaining_pence',
+  'remaining',
+  'days_left',
+  'end_date',
+  'daily_target_pence',
+  'daily_target',
+  'per_shift_pence',
+  'per_shift',
+  'row_count',
+] as const;
+
+const ROW_COLUMNS = ['row_name', 'row_needed_pence', 'row_needed', 'row_confidence', 'row_check'] as const;
+
+type ExportValue = string | number | null;
+
+function describeCalculation(entry: FundingHistoryEntry, currency: CurrencyCode): Record<(typeof CALCULATION_COLUMNS)[number], ExportValue> {
+  const fmt = (pence: number) => formatPence(pence, currency);
+  // History keeps the table total and the adjustment; remaining is worked out the same way as the targets.
+  const remainingPence = Math.max(0, entry.parsedTotalPence + entry.manualAdjustmentPence);
+  return {
+    history_id: entry.id,
+    calculated_at: entry.calculatedAt,
+    shift_day: entry.shiftDayIsoDate,
+    shift: entry.currentShift,
+    type: entry.commandType === 'text_command' ? 'upload' : entry.commandType === 'rollback' ? 'rollback' : 'recalculation',
+    user_id: entry.userId,
+    currency,
+    table_total_pence: entry.parsedTotalPence,
+    table_total: fmt(entry.parsedTotalPence),
+    adjustment_pence: entry.manualAdjustmentPence,
+    adjustment: fmt(entry.manualAdjustmentPence),
+    remaining_pence: remainingPence,
+    remaining: fmt(remainingPence),
+    days_left: entry.daysLeft,
+    end_date: entry.endDateOverride ?? entry.endOfWeekDate,
+    daily_target_pence: entry.dailyTargetPence,
+    daily_target: fmt(entry.dailyTargetPence),
+    per_shift_pence: entry.perShiftPence,
+    per_shift: fmt(entry.perShiftPence),
+    row_count: entry.parsedRows.length,
+  };
+}
+
+function describeRow(row: FundingHistoryEntry['parsedRows'][number], currency: CurrencyCode): Record<(typeof ROW_COLUMNS)[number], ExportValue> {
+  return {
+    row_name: row.name,
+    row_needed_pence: row.neededPence,
+    row_needed: row.neededPence === null ? null : formatPence(row.neededPence, currency),
+    row_confidence: row.confidence,
+    row_check: row.check ?? null,
+  };
+}
+
+// Columns holding text read from uploads rather than values the bot wrote itself.
+const UNTRUSTED_COLUMNS = new Set<string>(['row_name']);
+
+function escapeCsv(value: ExportValue, column: string): string {
+  if (value === null) return '';
+  let text = String(value);
+  // Row names come from screenshots and spreadsheets; never let one run as a formula when opened.
+  if (UNTRUSTED_COLUMNS.has(column) && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One record per calculation, oldest first. With includeRows, CSV gets one line per parsed table
+ * row (the calculation columns repeated) and JSON nests the rows under each calculation.
+ */
+export function buildFundingExport(
+  entries: FundingHistoryEntry[],
+  options: { format: FundingExportFormat; includeRows: boolean; currency: CurrencyCode },
+): string {
+  const { currency } = options;
+  const oldestFirst = [...entries].sort((a, b) => a.calculatedAt.localeCompare(b.calculatedAt) || a.id.localeCompare(b.id));
+
+  if (options.format === 'json') {
+    const records = oldestFirst.map((entry) => ({
+      ...describeCalculation(entry, currency),
+      ...(options.includeRows ? { rows: entry.parsedRows.map((row) => describeRow(row, currency)) } : {}),
+    }));
+    return JSON.stringify(records, null, 2);
+  }
+
+  const columns: string[] = [...CALCULATION_COLUMNS, ...(options.includeRows ? ROW_COLUMNS : [])];
+  const lines = [columns.join(',')];
+  for (const entry of oldestFirst) {
+    const calculation = describeCalculation(entry, currency);
+    const rows = options.includeRows && entry.parsedRows.length > 0 ? entry.parsedRows : [null];
+    for (const row of rows) {
+      const record: Record<string, ExportValue> = { ...calculation, ...(row ? describeRow(row, currency) : {}) };
+      lines.push(columns.map((c) => escapeCsv(record[c] ?? null, c)).join(','));
+    }
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+async function loadHistoryForExport(tracker: FundingTracker, from: string, to: string) {
+  const entries: FundingHistoryEntry[] = [];
+  while (entries.length < MAX_EXPORT_ENTRIES) {
+    const page = await fundingUpdatesHistory.findMany({
+      where: { guildId: tracker.guildId, trackerId: tracker.id, shiftDayFrom: from, shiftDayTo: to },
+      skip: entries.length,
+      take: EXPORT_PAGE_SIZE,
+    });
+    entries.push(...page);
+    if (page.length < EXPORT_PAGE_SIZE) break;
+  }
+  return entries;
+}
+
+export async function handleFundingExportCommand(interaction: ChatInputCommandInteraction, tracker: FundingTracker) {
+  const from = interaction.options.getString('from', true).trim();
+  const to = interaction.options.getString('to', true).trim();
+  const format = (interaction.options.getString('format') ?? 'csv') as FundingExportFormat;
+  const includeRows = interaction.options.getBoolean('rows') ?? false;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    await interaction.reply({ content: '❌ `from` and `to` must be in YYYY-MM-DD format.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+  if (from > to) {
+    await interaction.reply({ content: '❌ `from` must not be after `to`.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    const entries = await loadHistoryForExport(tracker, from, to);
+    if (entries.length === 0) {
+      await interaction.editReply({ content: `No funding calculations were recorded for **${tracker.name}** between ${from} and ${to}.` });
+      return;
+    }
+
+    const content = buildFundingExport(entries, { format, includeRows, currency: tracker.currency });
+    const slug = tracker.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'funding';
+    const truncated = entries.length >= MAX_EXPORT_ENTRIES ? ` (the newest ${MAX_EXPORT_ENTRIES}; narrow the dates for the rest)` : '';
+    await interaction.editReply({
+      content: `📤 ${entries.length} calculation(s) for **${tracker.name}**, shift days ${from} to ${to}${truncated}.`,
+      files: [{ attachment: Buffer.from(content, 'utf8'), name: `funding-${slug}-${from}-to-${to}.${format}` }],
+    });
+  } catch (error: any) {
+    console.error('Error handling /funding export:', error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to export funding history'}` });
+  }
+}
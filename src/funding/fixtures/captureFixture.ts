@@ -0,0 +1,73 @@
+/**
+ * Capture a parser fixture from a real screenshot.
+ *
+ *   yarn parser:capture <image> <fixture-name> [description]
+ *
+ * Runs the same preprocessing + OCR as the funding channel handler and writes the words to
+ * fixtures/parser/<fixture-name>.json. Expectations are seeded from the current parser output and the
+ * fixture is marked unreviewed: compare them against the screenshot, correct them, then set "reviewed": true.
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { formatPence } from '../money.js';
+import { extractNeededValuesFromWords } from '../parseNeeded.js';
+import { recognizeFundingImage } from '../pipeline.js';
+import type { ParserFixture } from './types.js';
+
+const PARSER_DIR = join(dirname(fileURLToPath(import.meta.url)), 'parser');
+
+async function main() {
+  const [imagePath, name, ...descriptionParts] = process.argv.slice(2);
+  if (!imagePath || !name) {
+    console.error('Usage: yarn parser:capture <image> <fixture-name> [description]');
+    process.exit(1);
+  }
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    console.error('Fixture name must be lowercase letters, digits and dashes.');
+    process.exit(1);
+  }
+  const outPath = join(PARSER_DIR, `${name}.json`);
+  if (existsSync(outPath)) {
+    console.error(`${outPath} already exists; pick another name or delete it first.`);
+    process.exit(1);
+  }
+
+  const { ocr, preprocessed } = await recognizeFundingImage(readFileSync(imagePath));
+  const parsed = extractNeededValuesFromWords(ocr.words);
+
+  const fixture: ParserFixture = {
+    description: descriptionParts.join(' ') || `Captured from ${basename(imagePath)}`,
+    source: basename(imagePath),
+    reviewed: false,
+    // Rounded boxes keep the JSON diffable; the parser's tolerances are whole pixels anyway.
+    words: ocr.words.map((w) => ({
+      text: w.text,
+      confidence: Math.round(w.confidence * 10) / 10,
+      bbox: {
+        x0: Math.round(w.bbox.x0),
+        y0: Math.round(w.bbox.y0),
+        x1: Math.round(w.bbox.x1),
+        y1: Math.round(w.bbox.y1),
+      },
+    })),
+    expected: {
+      totalPence: parsed.totalPence,
+      rows: parsed.rows.map((r) =>
+        r.check ? { name: r.name, neededPence: r.neededPence, check: r.check } : { name: r.name, neededPence: r.neededPence },
+      ),
+    },
+  };
+  writeFileSync(outPath, JSON.stringify(fixture, null, 2) + '\n');
+
+  console.log(`\nWrote ${outPath}`);
+  console.log(`Preprocessing: ${preprocessed?.applied.join(', ') || 'none'}`);
+  console.log(`${ocr.words.length} words, ${parsed.rows.length} rows, total ${formatPence(parsed.totalPence)}`);
+  console.log('Check the expected rows against the screenshot, then set "reviewed": true.');
+  process.exit(0); // Tesseract workers keep the event loop alive
+}
+
+main().catch((error) => {
+  console.error('Capture failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+/**
+ * Offline check that an undone upload's credits are not counted again after the next upload.
+ *
+ *   yarn contributions:check
+ *
+ * Runs upload → upload → upload → /funding undo → re-upload through recordFundingContributions and
+ * removeRolledBackContributions, with the contributions table and shifts held in memory. Every
+ * drop in the table total should end up credited exactly once.
+ */
+import type { Client } from 'discord.js';
+import { fundingContributions, prisma } from '../../db/index.js';
+import { recordFundingContributions, removeRolledBackContributions } from '../contributions.js';
+import type { FundingTracker } from '../trackers.js';
+
+type StoredContribution = Parameters<typeof fundingContributions.createMany>[0][number];
+type HistoryEntry = { id: string; commandType: 'text_command' | 'rollback'; calculatedAt: string; parsedTotalPence: number };
+
+const stored: StoredContribution[] = [];
+fundingContributions.createMany = async (entries) => {
+  stored.push(...entries);
+  return entries.length;
+};
+fundingContributions.deleteMany = async ({ where }) => {
+  const kept = stored.filter((c) => !(c.guildId === where.guildId && c.trackerId === where.trackerId && c.intervalEnd > where.intervalEndGt));
+  const removed = stored.length - kept.length;
+  stored.splice(0, stored.length, ...kept);
+  return removed;
+};
+
+// Alice works the morning, Bob the afternoon (the upload that gets undone), Cara the evening.
+const shifts = [
+  { userId: 'alice', startTime: '2026-01-12T09:00:00.000Z', endTime: '2026-01-12T12:00:00.000Z' },
+  { userId: 'bob', startTime: '2026-01-12T12:00:00.000Z', endTime: '2026-01-12T15:00:00.000Z' },
+  { userId: 'cara', startTime: '2026-01-12T15:00:00.000Z', endTime: '2026-01-12T18:00:00.000Z' },
+];
+prisma.shift.findMany = (async () => shifts) as unknown as typeof prisma.shift.findMany;
+
+// Everyone on shift can see the tracker's channel.
+const channel = {
+  isDMBased: () => false,
+  guild: { members: { cache: new Map(), fetch: async ({ user }: { user: string[] }) => new Map(user.map((id) => [id, { id }])) } },
+  permissionsFor: () => ({ has: () => true }),
+};
+const client = { channels: { fetch: async () => channel } } as unknown as Client;
+const tracker = { id: 'default', guildId: 'guild', channelId: 'funding', name: 'Funding', currency: 'USD' } as unknown as FundingTracker;
+
+const history: HistoryEntry[] = [];
+
+/** Same choice as getPreviousUpload: the newest upload or rollback. */
+function previousUpload() {
+  return history[history.length - 1] ?? null;
+}
+
+async function upload(id: string, at: string, parsedTotalPence: number) {
+  const previous = previousUpload();
+  history.push({ id, commandType: 'text_command', calculatedAt: at, parsedTotalPence });
+  if (previous) await recordFundingContributions(client, { tracker, historyId: id, previous, parsedTotalPence, now: new Date(at) });
+}
+
+async function undoTo(id: string, restored: HistoryEntry) {
+  await removeRolledBackContributions(tracker, restored.calculatedAt);
+  history.push({ id, commandType: 'rollback', calculatedAt: '2026-01-12T15:30:00.000Z', parsedTotalPence: restored.parsedTotalPence });
+}
+
+async function main() {
+  await upload('u1', '2026-01-12T09:00:00.000Z', 100000);
+  await upload('u2', '2026-01-12T12:00:00.000Z', 70000); // Alice: 300.00
+  await upload('u3', '2026-01-12T15:00:00.000Z', 40000); // Bob: 300.00, then undone
+  await undoTo('r1', history[1]);
+  await upload('u4', '2026-01-12T18:00:00.000Z', 40000); // Cara: 300.00 from the restored total
+
+  const byUser = new Map<string, number>();
+  for (const c of stored) byUser.set(c.userId, (byUser.get(c.userId) ?? 0) + c.amountPence);
+  const expected = new Map([
+    ['alice', 30000],
+    ['cara', 30000],
+  ]);
+
+  const failures: string[] = [];
+  for (const userId of new Set([...byUser.keys(), ...expected.keys()])) {
+    const actual = byUser.get(userId) ?? 0;
+    const want = expected.get(userId) ?? 0;
+    const ok = actual === want;
+    console.log(`${ok ? '✅' : '❌'} ${userId}: ${actual}`);
+    if (!ok) failures.push(`${userId}: expected ${want}, got ${actual}`);
+  }
+  const credited = stored.reduce((sum, c) => sum + c.amountPence, 0);
+  const dropped = history[0].parsedTotalPence - history[history.length - 1].parsedTotalPence;
+  if (credited !== dropped) failures.push(`credited ${credited} in total for a ${dropped} drop`);
+
+  if (failures.length > 0) {
+    console.log(`\n${failures.length} mismatch(es):`);
+    for (const f of failures) console.log(`  • ${f}`);
+    process.exit(1);
+  }
+  console.log(`\nThe ${dropped} drop was credited once across undo and re-upload.`);
+}
+
+main();
@@ -0,0 +1,143 @@
+/**
+ * Offline regression check for the funding table parser.
+ *
+ *   yarn parser:check            run every fixture
+ *   yarn parser:check <name>     only fixtures whose file name contains <name>
+ *
+ * Exits non-zero when any fixture's rows or total differ from its expectations.
+ */
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { formatPence, parseMoneyToPence } from '../money.js';
+import { extractNeededValuesFromWords } from '../parseNeeded.js';
+import { getSuspectRowIndexes } from '../review.js';
+import { extractNeededValuesFromTable, getCsvDelimiter, parseCsv, readXlsxCells } from '../tableImport.js';
+import type { MoneyFixture, ParserFixture, TableFixture } from './types.js';
+import { XLSX_FIXTURES } from './xlsx.js';
+
+const FIXTURES_DIR = dirname(fileURLToPath(import.meta.url));
+const PARSER_DIR = join(FIXTURES_DIR, 'parser');
+
+function formatValue(pence: number | null | undefined): string {
+  return pence === null || pence === undefined ? '—' : formatPence(pence);
+}
+
+function checkMoney(): string[] {
+  const cases = JSON.parse(readFileSync(join(FIXTURES_DIR, 'money.json'), 'utf8')) as MoneyFixture[];
+  const failures: string[] = [];
+  for (const c of cases) {
+    const actual = parseMoneyToPence(c.input, c.currency);
+    if (actual !== c.expected) {
+      const args = [JSON.stringify(c.input), ...(c.currency ? [`'${c.currency}'`] : [])].join(', ');
+      failures.push(`parseMoneyToPence(${args}): expected ${c.expected}, got ${actual}`);
+    }
+  }
+  console.log(`${failures.length === 0 ? '✅' : '❌'} money.json (${cases.length} cases)`);
+  return failures;
+}
+
+function checkTables(): string[] {
+  const fixtures = JSON.parse(readFileSync(join(FIXTURES_DIR, 'tables.json'), 'utf8')) as TableFixture[];
+  const failures: string[] = [];
+  for (const fixture of fixtures) {
+    // The same options readFundingTable passes for a .csv attachment.
+    const result = extractNeededValuesFromTable(parseCsv(fixture.csv), {
+      currency: fixture.currency,
+      decimalComma: getCsvDelimiter(fixture.csv) === ';',
+    });
+    const rows = result?.rows ?? [];
+    const suspect = new Set(getSuspectRowIndexes(rows));
+    const actual = rows.map((r, i) => ({ name: r.name, neededPence: r.neededPence, review: suspect.has(i) }));
+    if ((result?.totalPence ?? 0) !== fixture.expected.totalPence) {
+      failures.push(`${fixture.description}: total expected ${formatValue(fixture.expected.totalPence)}, got ${formatValue(result?.totalPence)}`);
+    }
+    if (JSON.stringify(actual) !== JSON.stringify(fixture.expected.rows)) {
+      failures.push(`${fixture.description}: rows expected ${JSON.stringify(fixture.expected.rows)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+  console.log(`${failures.length === 0 ? '✅' : '❌'} tables.json (${fixtures.length} tables)`);
+  return failures;
+}
+
+function checkSpreadsheets(): string[] {
+  const failures: string[] = [];
+  for (const fixture of XLSX_FIXTURES) {
+    const actual = readXlsxCells(fixture.file);
+    if (JSON.stringify(actual) !== JSON.stringify(fixture.expected)) {
+      failures.push(`${fixture.description}: cells expected ${JSON.stringify(fixture.expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+  console.log(`${failures.length === 0 ? '✅' : '❌'} xlsx.ts (${XLSX_FIXTURES.length} workbooks)`);
+  return failures;
+}
+
+function checkParserFixture(file: string): string[] {
+  const fixture = JSON.parse(readFileSync(join(PARSER_DIR, file), 'utf8')) as ParserFixture;
+  const result = extractNeededValuesFromWords(fixture.words);
+  const failures: string[] = [];
+
+  if (result.totalPence !== fixture.expected.totalPence) {
+    failures.push(
+      `total: expected ${formatValue(fixture.expected.totalPence)}, got ${formatValue(result.totalPence)}`,
+    );
+  }
+
+  const count = Math.max(result.rows.length, fixture.expected.rows.length);
+  for (let i = 0; i < count; i++) {
+    const want = fixture.expected.rows[i];
+    const got = result.rows[i];
+    if (!want) {
+      failures.push(`row ${i + 1}: unexpected "${got?.name}" ${formatValue(got?.neededPence)}`);
+    } else if (!got) {
+      failures.push(`row ${i + 1}: missing "${want.name}" ${formatValue(want.neededPence)}`);
+    } else if (
+      got.name !== want.name ||
+      got.neededPence !== want.neededPence ||
+      (want.check !== undefined && got.check !== want.check)
+    ) {
+      const describe = (r: typeof want) =>
+        `"${r.name}" ${formatValue(r.neededPence)}${r.check ? ` [${r.check}]` : ''}`;
+      failures.push(`row ${i + 1}: expected ${describe(want)}, got ${describe(got)}`);
+    }
+  }
+
+  const label = fixture.reviewed ? file : `${file} (unreviewed)`;
+  console.log(`${failures.length === 0 ? '✅' : '❌'} ${label} – ${fixture.description}`);
+  return failures.map((f) => `${file}: ${f}`);
+}
+
+function main() {
+  const filter = process.argv[2];
+  // The parser logs heavily while it works; keep the report readable.
+  const log = console.log;
+  const quietLog = (...args: unknown[]) => {
+    if (typeof args[0] === 'string' && args[0].startsWith('[Parse]')) return;
+    log(...args);
+  };
+  console.log = quietLog;
+
+  const failures: string[] = [];
+  if (!filter) {
+    // Damaged workbooks are logged as they are turned away; only the pass/fail lines matter here.
+    const error = console.error;
+    console.error = () => {};
+    failures.push(...checkMoney(), ...checkTables(), ...checkSpreadsheets());
+    console.error = error;
+  }
+  const files = readdirSync(PARSER_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .filter((f) => !filter || f.includes(filter))
+    .sort();
+  for (const file of files) failures.push(...checkParserFixture(file));
+
+  console.log = log;
+  if (failures.length > 0) {
+    console.log(`\n${failures.length} mismatch(es):`);
+    for (const f of failures) console.log(`  • ${f}`);
+    process.exit(1);
+  }
+  console.log(`\nAll ${files.length} parser fixture(s) match.`);
+}
+
+main();
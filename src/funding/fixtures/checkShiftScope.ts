@@ -0,0 +1,79 @@
+/**
+ * Offline check that shift pings and contribution credits stay with their own tracker.
+ *
+ *   yarn shifts:check
+ *
+ * Shifts are stored without a guild, so filterShiftsForTracker decides who belongs to a tracker
+ * from who can see its channel. The servers, channels and members here stand in for Discord.
+ */
+import type { Client } from 'discord.js';
+import { filterShiftsForTracker } from '../shiftScope.js';
+import type { FundingTracker } from '../trackers.js';
+
+type FakeMember = { id: string };
+
+function fakeGuild(memberIds: string[]) {
+  const cache = new Map<string, FakeMember>(memberIds.map((id) => [id, { id }]));
+  return {
+    members: {
+      cache,
+      fetch: async ({ user }: { user: string[] }) =>
+        new Map(user.filter((id) => cache.has(id)).map((id) => [id, cache.get(id)!] as const)),
+    },
+  };
+}
+
+function fakeChannel(guild: ReturnType<typeof fakeGuild>, viewerIds: string[]) {
+  const viewers = new Set(viewerIds);
+  return {
+    isDMBased: () => false,
+    guild,
+    permissionsFor: (member: FakeMember) => ({ has: () => viewers.has(member.id) }),
+  };
+}
+
+// Two servers: Alpha has a public channel and a private one (Bob cannot see it), Beta has one.
+const alpha = fakeGuild(['alice', 'bob']);
+const beta = fakeGuild(['cara']);
+const channels = new Map<string, unknown>([
+  ['alpha-main', fakeChannel(alpha, ['alice', 'bob'])],
+  ['alpha-private', fakeChannel(alpha, ['alice'])],
+  ['beta-main', fakeChannel(beta, ['cara'])],
+]);
+const client = { channels: { fetch: async (id: string) => channels.get(id) ?? null } } as unknown as Client;
+
+const tracker = (id: string, guildId: string, channelId: string) =>
+  ({ id, guildId, channelId, name: id }) as unknown as FundingTracker;
+
+const shifts = [
+  { userId: 'alice', startTime: '2026-01-12T09:00:00Z', endTime: null },
+  { userId: 'bob', startTime: '2026-01-12T09:00:00Z', endTime: null },
+  { userId: 'cara', startTime: '2026-01-12T09:00:00Z', endTime: null },
+  { userId: 'dan', startTime: '2026-01-12T09:00:00Z', endTime: null }, // left both servers
+];
+
+const cases: { tracker: FundingTracker; expected: string[] }[] = [
+  { tracker: tracker('alpha-main', 'alpha', 'alpha-main'), expected: ['alice', 'bob'] },
+  { tracker: tracker('alpha-private', 'alpha', 'alpha-private'), expected: ['alice'] },
+  { tracker: tracker('beta-main', 'beta', 'beta-main'), expected: ['cara'] },
+  { tracker: tracker('archived-channel', 'beta', 'deleted-channel'), expected: [] },
+];
+
+async function main() {
+  const failures: string[] = [];
+  for (const c of cases) {
+    const actual = (await filterShiftsForTracker(client, c.tracker, shifts)).map((s) => s.userId);
+    const ok = actual.join(',') === c.expected.join(',');
+    console.log(`${ok ? '✅' : '❌'} ${c.tracker.name}: ${actual.join(', ') || 'nobody'}`);
+    if (!ok) failures.push(`${c.tracker.name}: expected ${c.expected.join(', ') || 'nobody'}, got ${actual.join(', ') || 'nobody'}`);
+  }
+
+  if (failures.length > 0) {
+    console.log(`\n${failures.length} mismatch(es):`);
+    for (const f of failures) console.log(`  • ${f}`);
+    process.exit(1);
+  }
+  console.log(`\nAll ${cases.length} tracker(s) only see their own shifts.`);
+}
+
+main();
@@ -0,0 +1,100 @@
+/**
+ * Offline check that shift starts and ends stay on UK wall-clock time across the clock changes.
+ *
+ *   yarn shift-times:check
+ *
+ * In 2026 the UK moves to BST at 01:00 UTC on 29 March and back to GMT at 01:00 UTC on 25 October.
+ * Each case gives an instant and the UTC start and end expected for the shift running then.
+ */
+import { getShiftEndsAt, getShiftStartedAt, type ShiftConfig } from '../ukTime.js';
+
+// A shift starting inside the hour each change skips or repeats, besides the default shifts.
+const EARLY_HOURS_CONFIG: ShiftConfig = {
+  shifts: [
+    { name: 'Late', start: '17:00', end: '01:30' },
+    { name: 'Small hours', start: '01:30', end: '09:00' },
+    { name: 'Day', start: '09:00', end: '17:00' },
+  ],
+  rollover: '09:00',
+};
+
+const cases: { description: string; at: string; config?: ShiftConfig; start: string; end: string }[] = [
+  {
+    description: 'Winter Day shift',
+    at: '2026-01-12T12:00:00.000Z',
+    start: '2026-01-12T11:00:00.000Z',
+    end: '2026-01-12T19:00:00.000Z',
+  },
+  {
+    description: 'Summer Day shift',
+    at: '2026-07-13T12:00:00.000Z',
+    start: '2026-07-13T10:00:00.000Z',
+    end: '2026-07-13T18:00:00.000Z',
+  },
+  {
+    description: 'Night shift the clocks go forward in (19:00 GMT to 03:00 BST)',
+    at: '2026-03-29T01:30:00.000Z',
+    start: '2026-03-28T19:00:00.000Z',
+    end: '2026-03-29T02:00:00.000Z',
+  },
+  {
+    description: 'Morning shift after the clocks went forward',
+    at: '2026-03-29T05:00:00.000Z',
+    start: '2026-03-29T02:00:00.000Z',
+    end: '2026-03-29T10:00:00.000Z',
+  },
+  {
+    description: 'Night shift the clocks go back in (19:00 BST to 03:00 GMT), before the change',
+    at: '2026-10-25T00:30:00.000Z',
+    start: '2026-10-24T18:00:00.000Z',
+    end: '2026-10-25T03:00:00.000Z',
+  },
+  {
+    description: 'Night shift the clocks go back in, after the change',
+    at: '2026-10-25T02:30:00.000Z',
+    start: '2026-10-24T18:00:00.000Z',
+    end: '2026-10-25T03:00:00.000Z',
+  },
+  {
+    description: 'Shift starting at 01:30, skipped on the spring change day',
+    at: '2026-03-29T03:00:00.000Z',
+    config: EARLY_HOURS_CONFIG,
+    start: '2026-03-29T01:00:00.000Z',
+    end: '2026-03-29T08:00:00.000Z',
+  },
+  {
+    description: 'Shift ending at 01:30, skipped on the spring change day',
+    at: '2026-03-29T00:45:00.000Z',
+    config: EARLY_HOURS_CONFIG,
+    start: '2026-03-28T17:00:00.000Z',
+    end: '2026-03-29T01:00:00.000Z',
+  },
+  {
+    description: 'Shift starting at 01:30, repeated on the autumn change day (first 01:30)',
+    at: '2026-10-25T00:45:00.000Z',
+    config: EARLY_HOURS_CONFIG,
+    start: '2026-10-25T00:30:00.000Z',
+    end: '2026-10-25T09:00:00.000Z',
+  },
+];
+
+function main() {
+  const failures: string[] = [];
+  for (const c of cases) {
+    const at = new Date(c.at);
+    const start = getShiftStartedAt(at, c.config).toISOString();
+    const end = getShiftEndsAt(at, c.config).toISOString();
+    const ok = start === c.start && end === c.end && start <= c.at && c.at < end;
+    console.log(`${ok ? '✅' : '❌'} ${c.description}: ${start} → ${end}`);
+    if (!ok) failures.push(`${c.description}: expected ${c.start} → ${c.end}, got ${start} → ${end}`);
+  }
+
+  if (failures.length > 0) {
+    console.log(`\n${failures.length} mismatch(es):`);
+    for (const f of failures) console.log(`  • ${f}`);
+    process.exit(1);
+  }
+  console.log(`\nAll ${cases.length} shift(s) start and end on UK time.`);
+}
+
+main();
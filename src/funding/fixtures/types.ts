@@ -0,0 +1,30 @@
+import type { CurrencyCode } from '../money.js';
+import type { OcrWord } from '../ocr.js';
+import type { NeededRow } from '../parseNeeded.js';
+
+export type ParserFixture = {
+  description: string;
+  // Screenshot file name for captured fixtures, or 'synthetic' for hand-built word lists.
+  source: string;
+  // Captured fixtures start unreviewed: their expectations are whatever the parser produced at capture time.
+  reviewed: boolean;
+  words: OcrWord[];
+  expected: {
+    totalPence: number;
+    rows: Pick<NeededRow, 'name' | 'neededPence' | 'check'>[];
+  };
+};
+
+// A .csv attachment as the funding channel reads it. Rows with review: true must be held for staff to check.
+export type TableFixture = {
+  description: string;
+  csv: string;
+  currency?: CurrencyCode;
+  expected: {
+    totalPence: number;
+    rows: (Pick<NeededRow, 'name' | 'neededPence'> & { review: boolean })[];
+  };
+};
+
+// currency defaults to USD, as in parseMoneyToPence
+export type MoneyFixture = { input: string; currency?: CurrencyCode; expected: number | null };
@@ -0,0 +1,194 @@
+import { deflateRawSync } from 'node:zlib';
+import type { TableCells } from '../tableImport.js';
+
+/**
+ * Workbooks for the .xlsx reader, built in memory: the layouts spreadsheet apps write, and damaged
+ * or crafted files that must come back as no cells rather than an exception.
+ */
+
+type ZipOptions = {
+  // Leave sizes out of the local headers and write them after the data, as streaming writers do.
+  dataDescriptor?: boolean;
+  // Store entries uncompressed instead of deflating them.
+  store?: boolean;
+};
+
+function buildZip(files: Record<string, string>, options: ZipOptions = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(files)) {
+    const raw = Buffer.from(text, 'utf8');
+    const data = options.store ? raw : deflateRawSync(raw);
+    const nameBytes = Buffer.from(name, 'utf8');
+    const method = options.store ? 0 : 8;
+    const flags = options.dataDescriptor ? 0x8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(options.dataDescriptor ? 0 : data.length, 18);
+    local.writeUInt32LE(options.dataDescriptor ? 0 : raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const descriptor = Buffer.alloc(options.dataDescriptor ? 16 : 0);
+    if (options.dataDescriptor) {
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(data.length, 8);
+      descriptor.writeUInt32LE(raw.length, 12);
+    }
+    locals.push(local, nameBytes, data, descriptor);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length + descriptor.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const WORKBOOK =
+  '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  '<sheets><sheet name="Funding" sheetId="1" r:id="rId1"/></sheets></workbook>';
+const WORKBOOK_RELS =
+  '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>';
+
+function sheetXml(rows: string[]): string {
+  return `<worksheet><sheetData>${rows.map((cells, i) => `<row r="${i + 1}">${cells}</row>`).join('')}</sheetData></worksheet>`;
+}
+
+// Names as shared strings and amounts as numbers, as Excel and LibreOffice save them.
+function sharedStringsWorkbook(options: ZipOptions = {}): Buffer {
+  return buildZip(
+    {
+      'xl/workbook.xml': WORKBOOK,
+      'xl/_rels/workbook.xml.rels': WORKBOOK_RELS,
+      'xl/sharedStrings.xml': '<sst><si><t>Name</t></si><si><t>Needed</t></si><si><t>Lucas</t></si><si><r><t>Mia</t></r><r><t xml:space="preserve"> &amp; Co</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml': sheetXml([
+        '<c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c>',
+        '<c r="A2" t="s"><v>2</v></c><c r="B2"><v>1234.5600000000001</v></c>',
+        '<c r="A3" t="s"><v>3</v></c><c r="B3"><v>80</v></c>',
+      ]),
+    },
+    options,
+  );
+}
+
+// Text written inline in the sheet rather than in sharedStrings.xml, as some exporters do.
+function inlineStringsWorkbook(options: ZipOptions = {}): Buffer {
+  const inline = (ref: string, text: string) => `<c r="${ref}" t="inlineStr"><is><t>${text}</t></is></c>`;
+  return buildZip(
+    {
+      'xl/workbook.xml': WORKBOOK,
+      'xl/_rels/workbook.xml.rels': WORKBOOK_RELS,
+      'xl/worksheets/sheet1.xml': sheetXml([
+        inline('A1', 'Name') + inline('B1', 'Needed'),
+        inline('A2', 'Lucas') + '<c r="B2"><v>250</v></c>',
+      ]),
+    },
+    options,
+  );
+}
+
+// Copies with one field of the end record or of the first directory entry overwritten.
+function withEocd(buffer: Buffer, edit: (copy: Buffer, eocd: number) => void): Buffer {
+  const copy = Buffer.from(buffer);
+  edit(copy, copy.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06])));
+  return copy;
+}
+
+function withFirstCentralEntry(buffer: Buffer, edit: (copy: Buffer, entry: number) => void): Buffer {
+  const copy = Buffer.from(buffer);
+  edit(copy, copy.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])));
+  return copy;
+}
+
+// The first entry's data starts right after its 30-byte local header and name.
+function withCorruptFirstEntry(buffer: Buffer): Buffer {
+  const copy = Buffer.from(buffer);
+  const start = 30 + copy.readUInt16LE(26);
+  copy.fill(0xff, start, start + 10);
+  return copy;
+}
+
+const SHARED_STRINGS_CELLS: TableCells = [
+  ['Name', 'Needed'],
+  ['Lucas', '1234.56'],
+  ['Mia & Co', '80'],
+];
+const INLINE_STRINGS_CELLS: TableCells = [
+  ['Name', 'Needed'],
+  ['Lucas', '250'],
+];
+
+export const XLSX_FIXTURES: { description: string; file: Buffer; expected: TableCells }[] = [
+  { description: 'Shared strings, deflated', file: sharedStringsWorkbook(), expected: SHARED_STRINGS_CELLS },
+  { description: 'Shared strings, stored', file: sharedStringsWorkbook({ store: true }), expected: SHARED_STRINGS_CELLS },
+  { description: 'Inline strings', file: inlineStringsWorkbook(), expected: INLINE_STRINGS_CELLS },
+  {
+    description: 'Sizes in data descriptors',
+    file: inlineStringsWorkbook({ dataDescriptor: true }),
+    expected: INLINE_STRINGS_CELLS,
+  },
+  { description: 'Not a zip file', file: Buffer.from('Name,Needed\nLucas,250\n'), expected: [] },
+  { description: 'Empty file', file: Buffer.alloc(0), expected: [] },
+  {
+    description: 'Truncated before the central directory',
+    file: sharedStringsWorkbook().subarray(0, 200),
+    expected: [],
+  },
+  {
+    description: 'Truncated inside the end record',
+    file: sharedStringsWorkbook().subarray(0, -10),
+    expected: [],
+  },
+  {
+    description: 'Central directory offset past the end',
+    file: withEocd(sharedStringsWorkbook(), (copy, at) => copy.writeUInt32LE(0x7fffff00, at + 16)),
+    expected: [],
+  },
+  {
+    description: 'Zip64 directory marker',
+    file: withEocd(sharedStringsWorkbook(), (copy, at) => copy.writeUInt32LE(0xffffffff, at + 16)),
+    expected: [],
+  },
+  {
+    description: 'Entry count larger than the directory',
+    file: withEocd(sharedStringsWorkbook(), (copy, at) => copy.writeUInt16LE(200, at + 10)),
+    expected: [],
+  },
+  {
+    description: 'Entry offset past the end',
+    file: withFirstCentralEntry(sharedStringsWorkbook(), (copy, at) => copy.writeUInt32LE(0x7fffff00, at + 42)),
+    expected: [],
+  },
+  {
+    description: 'Compressed size past the end',
+    file: withFirstCentralEntry(sharedStringsWorkbook(), (copy, at) => copy.writeUInt32LE(0x00ffffff, at + 20)),
+    expected: [],
+  },
+  {
+    description: 'File name longer than the directory',
+    file: withFirstCentralEntry(sharedStringsWorkbook(), (copy, at) => copy.writeUInt16LE(0xffff, at + 28)),
+    expected: [],
+  },
+  { description: 'Corrupt deflate data', file: withCorruptFirstEntry(sharedStringsWorkbook()), expected: [] },
+];
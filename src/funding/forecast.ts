@@ -0,0 +1,126 @@
+import { fundingUpdatesHistory } from '../db/index.js';
+import { getEnv } from '../env.js';
+import { formatPence, type CurrencyCode } from './money.js';
+
+// The run rate looks back this far, and stops early at a rise (a new period or a correction).
+const RUN_RATE_DAYS = 3;
+const MIN_SPAN_HOURS = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FundingPace = {
+  ratePencePerDay: number; // how fast the table total has been coming down
+  neededPencePerDay: number; // what clearing the remaining total by the end date takes
+  projectedShortfallPence: number; // > 0 when the current rate will not clear it in time
+  basedOnDays: number;
+  uploads: number;
+};
+
+/**
+ * Project the remaining total forward at the recent run rate. Returns null until there are
+ * uploads at least MIN_SPAN_HOURS apart in the current period.
+ */
+export function computeFundingPace(
+  uploads: { calculatedAt: string; parsedTotalPence: number }[],
+  calc: { remainingPence: number; daysLeft: number },
+  now = new Date(),
+): FundingPace | null {
+  const newestFirst = [...uploads]
+    .filter((u) => now.getTime() - new Date(u.calculatedAt).getTime() <= RUN_RATE_DAYS * DAY_MS)
+    .sort((a, b) => b.calculatedAt.localeCompare(a.calculatedAt));
+  if (newestFirst.length < 2) return null;
+
+  let oldestIndex = 0;
+  for (let i = 1; i < newestFirst.length; i++) {
+    if (newestFirst[i].parsedTotalPence < newestFirst[i - 1].parsedTotalPence) break;
+    oldestIndex = i;
+  }
+  const newest = newestFirst[0];
+  const oldest = newestFirst[oldestIndex];
+  const spanMs = new Date(newest.calculatedAt).getTime() - new Date(oldest.calculatedAt).getTime();
+  if (spanMs < MIN_SPAN_HOURS * 60 * 60 * 1000) return null;
+
+  const basedOnDays = spanMs / DAY_MS;
+  const daysLeft = Math.max(1, calc.daysLeft);
+  // Both rates are rounded the same way, so "behind" always means at least one minor unit a day.
+  const ratePencePerDay = Math.round((oldest.parsedTotalPence - newest.parsedTotalPence) / basedOnDays);
+  const neededPencePerDay = Math.round(calc.remainingPence / daysLeft);
+  const behind = neededPencePerDay - ratePencePerDay >= 1;
+  return {
+    ratePencePerDay,
+    neededPencePerDay,
+    projectedShortfallPence: behind ? Math.max(0, calc.remainingPence - ratePencePerDay * daysLeft) : 0,
+    basedOnDays,
+    uploads: oldestIndex + 1,
+  };
+}
+
+/** Pace for a tracker's latest uploads. Never throws; null when there is no usable history. */
+export async function getFundingPace(
+  guildId: string,
+  trackerId: string,
+  calc: { remainingPence: number; daysLeft: number },
+): Promise<FundingPace | null> {
+  try {
+    const uploads = await fundingUpdatesHistory.findMany({
+      where: { guildId, trackerId, commandType: 'text_command' },
+      take: 50,
+    });
+    return computeFundingPace(uploads, calc);
+  } catch (error) {
+    console.error('[Funding] Failed to load history for pace:', error);
+    return null;
+  }
+}
+
+export function renderPaceForEmbed(pace: FundingPace | null, currency: CurrencyCode = 'USD'): string {
+  if (!pace) return 'Not enough uploads yet to measure a run rate.';
+  const fmt = (pence: number) => formatPence(pence, currency);
+  const basis = `${fmt(pace.ratePencePerDay)}/day over the last ${pace.basedOnDays.toFixed(1)} days`;
+  if (pace.projectedShortfallPence === 0) return `✅ **On pace**: ${basis} (need ${fmt(pace.neededPencePerDay)}/day)`;
+  return (
+    `⚠️ **Behind by ${fmt(pace.neededPencePerDay - pace.ratePencePerDay)}/day**: ${basis}, need ${fmt(pace.neededPencePerDay)}/day\n` +
+    `Projected ${fmt(pace.projectedShortfallPence)} short at the end date`
+  );
+}
+
+// Trackers currently past the warning threshold, so the warning is posted once per crossing rather than per upload.
+const warnedTrackers = new Set<string>();
+
+/** Post a warning when the projected shortfall crosses FUNDING_SHORTFALL_WARNING_PERCENT of the remaining total. */
+export async function postShortfallWarningIfCrossed(
+  channel: { send: (...args: any[]) => Promise<any> } | null,
+  guildId: string,
+  trackerId: string,
+  pace: FundingPace | null,
+  remainingPence: number,
+  currency: CurrencyCode = 'USD',
+) {
+  const thresholdPercent = getEnv().FUNDING_SHORTFALL_WARNING_PERCENT;
+  if (!channel || !pace || thresholdPercent <= 0 || remainingPence <= 0) return;
+
+  const key = `${guildId}:${trackerId}`;
+  const shortfallPercent = (pace.projectedShortfallPence / remainingPence) * 100;
+  if (shortfallPercent < thresholdPercent) {
+    warnedTrackers.delete(key);
+    return;
+  }
+  if (warnedTrackers.has(key)) return;
+  warnedTrackers.add(key);
+
+  const fmt = (pence: number) => formatPence(pence, currency);
+  await channel
+    .send({
+      embeds: [
+        {
+          title: '🚨 Funding Falling Behind',
+          description:
+            `At the current rate (${fmt(pace.ratePencePerDay)}/day) the table is projected to end ` +
+            `**${fmt(pace.projectedShortfallPence)}** short (${Math.round(shortfallPercent)}% of what is left).\n` +
+            `Clearing it needs **${fmt(pace.neededPencePerDay)}/day**, ${fmt(pace.neededPencePerDay - pace.ratePencePerDay)}/day more than now.`,
+          color: 0xef4444,
+          timestamp: new Date().toISOString(),
+        },
+      ],
+    })
+    .catch((error) => console.error('Failed to post funding shortfall warning:', error));
+}
@@ -0,0 +1,176 @@
+import type { ButtonInteraction, ChatInputCommandInteraction } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { fundingUpdatesHistory } from '../db/index.js';
+import { formatPence, type CurrencyCode } from './money.js';
+import { renderRowsForEmbed, sanitizeEmbedFields, sanitizeEmbedText } from './render.js';
+import { getTracker, type FundingTracker } from './trackers.js';
+
+const HISTORY_PAGE_SIZE = 5;
+
+type FundingHistoryEntry = NonNullable<Awaited<ReturnType<typeof fundingUpdatesHistory.findUnique>>>;
+
+function describeAdjustment(entry: FundingHistoryEntry, currency: CurrencyCode): string {
+  const adj = entry.manualAdjustmentPence;
+  if (adj === 0 && !entry.manualAdjustmentType) return 'None';
+  const sign = adj > 0 ? '+' : adj < 0 ? '−' : '';
+  const type = entry.manualAdjustmentType ? ` (${entry.manualAdjustmentType})` : '';
+  return `${sign}${formatPence(Math.abs(adj), currency)}${type}`;
+}
+
+async function buildHistoryPage(tracker: FundingTracker, page: number) {
+  const { guildId, currency } = tracker;
+  const where = { guildId, trackerId: tracker.id };
+  const total = await fundingUpdatesHistory.count({ where });
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+  const current = Math.min(Math.max(1, page), pageCount);
+  const entries = await fundingUpdatesHistory.findMany({
+    where,
+    skip: (current - 1) * HISTORY_PAGE_SIZE,
+    take: HISTORY_PAGE_SIZE,
+  });
+
+  if (entries.length === 0) {
+    return {
+      embeds: [
+        {
+          title: `📜 Funding History • ${tracker.name}`,
+          description: 'No funding calculations have been recorded yet.',
+          color: 0x5865f2,
+        },
+      ],
+      components: [],
+    };
+  }
+
+  const fields = entries.map((entry, i) => {
+    const when = Math.floor(new Date(entry.calculatedAt).getTime() / 1000);
+    const source =
+      entry.commandType === 'text_command' ? 'Upload' : entry.commandType === 'rollback' ? 'Rollback' : 'Recalculation';
+    return {
+      name: `${(current - 1) * HISTORY_PAGE_SIZE + i + 1}. ${source} • \`${entry.id.slice(0, 8)}\``,
+      value: [
+        `👤 <@${entry.userId}> • <t:${when}:f>`,
+        `💰 Table: **${formatPence(entry.parsedTotalPence, currency)}** (${entry.parsedRows.length} rows)`,
+        `🎯 Daily: **${formatPence(entry.dailyTargetPence, currency)}** • Per shift: **${formatPence(entry.perShiftPence, currency)}** (${entry.currentShift})`,
+        `✏️ Adjustment: ${describeAdjustment(entry, currency)}`,
+      ].join('\n'),
+      inline: false,
+    };
+  });
+  sanitizeEmbedFields(fields);
+
+  return {
+    embeds: [
+      {
+        title: `📜 Funding History • ${tracker.name}`,
+        description: `**${total}** recorded calculation(s), newest first.`,
+        fields,
+        color: 0x5865f2,
+        footer: { text: `Page ${current}/${pageCount}` },
+      },
+    ],
+    components: [
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 2, // Secondary button
+            custom_id: `funding_history_page_${tracker.id}_${current - 1}`,
+            label: '◀ Prev',
+            disabled: current <= 1,
+          },
+          {
+            type: 2,
+            style: 2,
+            custom_id: `funding_history_page_${tracker.id}_${current + 1}`,
+            label: 'Next ▶',
+            disabled: current >= pageCount,
+          },
+        ],
+      },
+      {
+        type: 1,
+        components: entries.map((entry, i) => ({
+          type: 2,
+          style: 1, // Primary button
+          custom_id: `funding_history_view_${entry.id}`,
+          label: `🖼️ ${(current - 1) * HISTORY_PAGE_SIZE + i + 1}`,
+        })),
+      },
+    ],
+  };
+}
+
+export async function handleFundingHistoryCommand(interaction: ChatInputCommandInteraction, tracker: FundingTracker) {
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+  try {
+    const page = interaction.options.getInteger('page') ?? 1;
+    await interaction.editReply(await buildHistoryPage(tracker, page));
+  } catch (error: any) {
+    console.error('Error handling /funding history:', error);
+    await interaction.editReply({
+      content: `Error: ${error.message || 'Failed to load funding history'}`,
+    });
+  }
+}
+
+export async function handleFundingHistoryButton(interaction: ButtonInteraction) {
+  const customId = interaction.customId;
+
+  if (customId.startsWith('funding_history_page_')) {
+    const [trackerId, pageStr] = customId.replace('funding_history_page_', '').split('_');
+    const tracker = await getTracker(interaction.guildId!, trackerId);
+    if (!tracker) {
+      await interaction.reply({ content: 'That tracker has been archived.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    await interaction.update(await buildHistoryPage(tracker, Number(pageStr) || 1));
+    return;
+  }
+
+  if (customId.startsWith('funding_history_view_')) {
+    const id = customId.replace('funding_history_view_', '');
+    const entry = await fundingUpdatesHistory.findUnique({ where: { id } });
+    if (!entry || entry.guildId !== interaction.guildId) {
+      await interaction.reply({ content: 'History entry not found.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    // Archived trackers are no longer listed; their entries still show, just without a jump link.
+    const tracker = await getTracker(entry.guildId, entry.trackerId);
+    const currency = tracker?.currency ?? 'USD';
+    const { text: rowsText, flaggedCount } = renderRowsForEmbed(entry.parsedRows, currency);
+    const when = Math.floor(new Date(entry.calculatedAt).getTime() / 1000);
+    const channelId = tracker?.channelId;
+    const jumpLink =
+      entry.messageId && channelId
+        ? `\n[Jump to message](https://discord.com/channels/${entry.guildId}/${channelId}/${entry.messageId})`
+        : '';
+    await interaction.reply({
+      embeds: [
+        {
+          title: `🖼️ Funding upload \`${entry.id.slice(0, 8)}\``,
+          description: sanitizeEmbedText(
+            `Uploaded by <@${entry.userId}> • <t:${when}:f>` +
+              `\nTable total: **${formatPence(entry.parsedTotalPence, currency)}**` +
+              jumpLink,
+          ),
+          fields: [
+            {
+              name: `📋 OCR rows (${entry.parsedRows.length})`,
+              value: rowsText || '—',
+              inline: false,
+            },
+          ],
+          // Spreadsheet uploads keep their file link here too, but only screenshots can be shown.
+          image: /\.(png|jpe?g|gif|webp)(\?|$)/i.test(entry.imageUrl) ? { url: entry.imageUrl } : undefined,
+          color: flaggedCount > 0 ? 0xf59e0b : 0x5865f2,
+          footer: flaggedCount > 0 ? { text: `⚠️ ${flaggedCount} low-confidence row(s)` } : undefined,
+        },
+      ],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+}
@@ -1,19 +1,94 @@
-import type { ChatInputCommandInteraction, Client, Message, TextChannel } from 'discord.js';
+import type {
+  APIInteractionGuildMember,
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  Client,
+  GuildMember,
+  Message,
+  ModalSubmitInteraction,
+  PartialMessage,
+  TextChannel,
+} from 'discord.js';
 import { MessageFlags } from 'discord.js';
-import { prisma, fundingUpdatesHistory } from '../db/index.js';
-import { getEnv, getStaffUserIds } from '../env.js';
-import { extractNeededValuesFromWords } from './parseNeeded.js';
-import { poundsToPence, formatPence } from './money.js';
-import { recognizeImage } from './ocr.js';
-import { daysBetweenIsoInclusive, getUkShiftInfo, daysUntilEndOfWeek, getEndOfWeekIso } from './ukTime.js';
-
-type FundingRecalcOptions = {
-  endDate?: string | null;
-  daysLeftOverride?: number | null;
-  addAmount?: number | null;
-  removeAmount?: number | null;
-  resetAdjustment?: boolean | null;
-};
+import { prisma, fundingUpdatesHistory, type FundingHistoryCommandType } from '../db/index.js';
+import { getEnv, getFundingUploaderRoleIds, getStaffRoleIds, getStaffUserIds } from '../env.js';
+import { extractNeededValuesFromWords, type NeededParseResult, type NeededRow } from './parseNeeded.js';
+import {
+  MAX_TABLE_FILE_BYTES,
+  extractNeededValuesFromTable,
+  getCsvDelimiter,
+  getTableAttachmentKind,
+  parseCsv,
+  parsePastedTable,
+  readXlsxCells,
+  tableToText,
+  type TableCells,
+} from './tableImport.js';
+import { formatPence, poundsToPence } from './money.js';
+import { diffFundingRows, hasRowChanges, renderRowDiffForEmbed, type FundingRowDiff } from './diff.js';
+import { sanitizeEmbedText } from './render.js';
+import { isFundingBoardEnabled, isFundingBoardMessage, refreshFundingBoard } from './board.js';
+import { handleFundingHistoryButton, handleFundingHistoryCommand } from './history.js';
+import {
+  buildAliasSuggestionMessageParts,
+  handleFundingAliasButton,
+  handleFundingAliasCommand,
+  loadRowAliases,
+  suggestRowAliases,
+} from './aliases.js';
+import {
+  applyFundingReviewEdit,
+  buildFundingReviewMessage,
+  createFundingReview,
+  getFundingReview,
+  getSuspectRowIndexes,
+  restoreFundingReview,
+  showFundingReviewEditModal,
+  takeFundingReview,
+  type PendingFundingUpload,
+} from './review.js';
+import {
+  buildAdjustmentsMessage,
+  describeAdjustmentAmount,
+  getCurrentAdjustmentPence,
+  handleFundingAdjustmentsCommand,
+  recordFundingAdjustment,
+  voidAllFundingAdjustments,
+  voidFundingAdjustment,
+} from './adjustments.js';
+import { computeImageHash, findUploadWarnings } from './duplicates.js';
+import { getFundingPace, postShortfallWarningIfCrossed } from './forecast.js';
+import { checkFundingMilestones } from './milestones.js';
+import {
+  handleFundingContributionsCommand,
+  recordFundingContributions,
+  removeRolledBackContributions,
+} from './contributions.js';
+import { handleFundingExportCommand } from './export.js';
+import { OcrBusyError } from './ocr.js';
+import { recognizeFundingImage } from './pipeline.js';
+import {
+  buildFundingEmbed,
+  calculateFundingTargets,
+  getEnvEndDate,
+  getFundingChannel,
+  getFundingState,
+  isValidIsoDate,
+  loadTrackerCalculationInputs,
+  type FundingCalculation,
+  type FundingRecalcOptions,
+} from './targets.js';
+import {
+  findTrackerByChannel,
+  getReportConversion,
+  getTracker,
+  handleFundingTrackerCommand,
+  resolveTrackerForInteraction,
+  type FundingTracker,
+} from './trackers.js';
+import { handleFundingWeightsCommand } from './shiftWeights.js';
+
+type FundingRow = NeededRow;
 
 function isStaffUser(userId: string): boolean {
   const env = getEnv();
@@ -21,6 +96,20 @@ function isStaffUser(userId: string): boolean {
   return staffIds.has(userId);
 }
 
+/** Staff user IDs, staff roles and the dedicated funding uploader roles may post screenshots and review them. */
+function canUploadFunding(userId: string, member: GuildMember | APIInteractionGuildMember | null): boolean {
+  if (isStaffUser(userId)) return true;
+  const env = getEnv();
+  const allowedRoleIds = [...getStaffRoleIds(env), ...getFundingUploaderRoleIds(env)];
+  // Interactions can carry the raw API member, whose roles are a plain list of IDs.
+  const roles = member?.roles;
+  if (!roles) return false;
+  return allowedRoleIds.some((roleId) => (Array.isArray(roles) ? roles.includes(roleId) : roles.cache.has(roleId)));
+}
+
+// Channel messages cannot be ephemeral, so rejection notices remove themselves instead.
+const REJECTION_NOTICE_TTL_MS = 20_000;
+
 function isImageAttachment(att: { contentType?: string | null; name?: string | null; url?: string }): boolean {
   if (!att.url) return false;
   if (att.contentType?.startsWith('image/')) return true;
@@ -44,128 +133,1033 @@ async function findLatestImageMessage(channel: TextChannel, limit = 50): Promise
   return null;
 }
 
-function isValidIsoDate(iso: string): boolean {
-  return /^\d{4}-\d{2}-\d{2}$/.test(iso);
+/** Discord attachment URLs carry expiring signature params; compare the file path only. */
+function isSameAttachment(a: string, b: string): boolean {
+  try {
+    return new URL(a).pathname === new URL(b).pathname;
+  } catch {
+    return a === b;
+  }
+}
+
+async function saveFundingState(
+  tracker: FundingTracker,
+  calc: FundingCalculation,
+  source: { messageId: string | null; imageUrl: string | null; ocrText: string | null; neededPenceValues: number[] },
+) {
+  // Upsert writes every column, so the full state (including end date and adjustment) is always passed.
+  const data = {
+    channelId: tracker.channelId,
+    endDate: calc.endDate,
+    manualAdjustmentPence: calc.manualAdjustmentPence,
+    lastImageMessageId: source.messageId,
+    lastImageUrl: source.imageUrl,
+    lastOcrText: source.ocrText,
+    lastParsedNeededValues: source.neededPenceValues,
+    lastParsedTotalPence: calc.parsedTotalPence,
+  };
+  return prisma.fundingState.upsert({
+    where: { guildId: tracker.guildId, trackerId: tracker.id },
+    create: { guildId: tracker.guildId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Append the calculation to funding_updates_history. Failures are logged, not thrown,
+ * so a history outage never stops targets from being posted.
+ */
+async function recordFundingHistory(input: {
+  tracker: FundingTracker;
+  userId: string;
+  commandType: FundingHistoryCommandType;
+  source: { messageId: string | null; imageUrl: string | null; ocrText: string | null; neededPenceValues: number[] };
+  imageHash?: string | null;
+  rows: FundingRow[];
+  calc: FundingCalculation;
+  options?: FundingRecalcOptions;
+}): Promise<string | null> {
+  try {
+    const entry = await fundingUpdatesHistory.create({
+      guildId: input.tracker.guildId,
+      trackerId: input.tracker.id,
+      userId: input.userId,
+      commandType: input.commandType,
+      messageId: input.source.messageId,
+      imageUrl: input.source.imageUrl ?? '',
+      imageHash: input.imageHash ?? null,
+      ocrText: input.source.ocrText,
+      parsedRows: input.rows,
+      parsedNeededValues: input.source.neededPenceValues,
+      parsedTotalPence: input.calc.parsedTotalPence,
+      daysLeft: input.calc.daysLeft,
+      endOfWeekDate: input.calc.endOfWeekDate,
+      dailyTargetPence: input.calc.dailyTargetPence,
+      remainingShifts: input.calc.shiftInfo.remainingShiftsToday,
+      perShiftPence: input.calc.perShiftPence,
+      currentShift: input.calc.shiftInfo.currentShift,
+      shiftDayIsoDate: input.calc.shiftInfo.shiftDayIsoDate,
+      manualAdjustmentPence: input.calc.manualAdjustmentPence,
+      manualAdjustmentType: input.calc.manualAdjustmentType,
+      daysLeftOverride: input.options?.daysLeftOverride ?? null,
+      endDateOverride: input.options?.endDate ?? null,
+      calculatedAt: new Date().toISOString(),
+    });
+    return entry.id;
+  } catch (error) {
+    console.error('Failed to record funding history:', error);
+    return null;
+  }
+}
+
+async function ocrFundingImage(imageUrl: string, tracker: FundingTracker) {
+  const buffer = await fetchBuffer(imageUrl);
+  const imageHash = await computeImageHash(buffer);
+  const { ocr, preprocessed } = await recognizeFundingImage(buffer);
+  const parsed = extractNeededValuesFromWords(ocr.words, {
+    aliases: await loadRowAliases(tracker.guildId),
+    currency: tracker.currency,
+  });
+  return { ocr, parsed, preprocessed, imageHash };
+}
+
+/** Read a .csv / .xlsx attachment or a pasted table without OCR. parsed is null when no Needed column is found. */
+async function readFundingTable(
+  file: { url: string; name: string; contentType: string | null; size: number } | null,
+  pasted: TableCells | null,
+  tracker: FundingTracker,
+): Promise<{ text: string; parsed: NeededParseResult | null }> {
+  let cells = pasted ?? [];
+  let decimalComma = false;
+  if (file) {
+    if (file.size > MAX_TABLE_FILE_BYTES) throw new Error('the file is too large for a funding table');
+    const buffer = await fetchBuffer(file.url);
+    if (getTableAttachmentKind(file) === 'xlsx') {
+      cells = readXlsxCells(buffer);
+    } else {
+      const text = buffer.toString('utf8');
+      decimalComma = getCsvDelimiter(text) === ';';
+      cells = parseCsv(text);
+    }
+  }
+  const parsed = extractNeededValuesFromTable(cells, {
+    aliases: await loadRowAliases(tracker.guildId),
+    currency: tracker.currency,
+    decimalComma,
+  });
+  return { text: tableToText(cells), parsed };
+}
+
+async function postFundingAuditNote(client: Client, text: string) {
+  const channelId = getEnv().FUNDING_AUDIT_CHANNEL_ID;
+  console.log('[Funding Audit]', text);
+  if (!channelId) return;
+  try {
+    const channel = await client.channels.fetch(channelId);
+    if (channel?.isTextBased() && 'send' in channel) {
+      await channel.send({ content: text, allowedMentions: { parse: [] } });
+    }
+  } catch (error) {
+    console.error('Failed to post funding audit note:', error);
+  }
 }
 
-function truncateUtf8(input: string, maxBytes: number): string {
-  // Discord embed field value limit is 1024; depending on server internals it can behave like a byte limit.
-  // Enforce by UTF-8 bytes to be safe with punctuation/emoji.
-  if (!input) return input;
-  if (Buffer.byteLength(input, 'utf8') <= maxBytes) return input;
-  let out = input;
-  const ellipsis = '…';
-  // Trim until it fits with an ellipsis suffix.
-  while (out.length > 0 && Buffer.byteLength(out + ellipsis, 'utf8') > maxBytes) {
-    out = out.slice(0, -1);
+/** Post a targets embed to the tracker's channel, or with FUNDING_BOARD on, redraw the board instead. */
+async function publishFundingTargets(
+  client: Client,
+  channel: { send: (...args: any[]) => Promise<any> } | null,
+  tracker: FundingTracker,
+  embed: ReturnType<typeof buildFundingEmbed>,
+) {
+  if (isFundingBoardEnabled()) {
+    await refreshFundingBoard(client, tracker);
+    return;
   }
-  return out.length > 0 ? out + ellipsis : ellipsis;
+  await channel?.send({ embeds: [embed] }).catch((error) => console.error('Failed to post funding update:', error));
 }
 
-function sanitizeEmbedText(input: string, maxBytes = 1000): string {
-  return truncateUtf8(input ?? '', maxBytes);
+export async function handleFundingCommand(interaction: ChatInputCommandInteraction) {
+  const sub = interaction.options.getSubcommand();
+
+  if (!interaction.guild) {
+    await interaction.reply({ content: 'This command can only be used in a server.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  if (!isStaffUser(interaction.user.id)) {
+    await interaction.reply({ content: 'Only staff members can manage funding.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  if (interaction.options.getSubcommandGroup(false) === 'tracker') {
+    await handleFundingTrackerCommand(interaction);
+    return;
+  }
+
+  if (interaction.options.getSubcommandGroup(false) === 'weights') {
+    await handleFundingWeightsCommand(interaction);
+    return;
+  }
+
+  if (interaction.options.getSubcommandGroup(false) === 'alias') {
+    await handleFundingAliasCommand(interaction);
+    return;
+  }
+
+  // Everything else works on one tracker's table.
+  const resolved = await resolveTrackerForInteraction(interaction);
+  if ('error' in resolved) {
+    await interaction.reply({ content: resolved.error, flags: MessageFlags.Ephemeral });
+    return;
+  }
+  const { tracker } = resolved;
+
+  if (sub === 'update') {
+    await handleFundingUpdate(interaction, tracker);
+    return;
+  }
+
+  if (sub === 'history') {
+    await handleFundingHistoryCommand(interaction, tracker);
+    return;
+  }
+
+  if (sub === 'adjustments') {
+    await handleFundingAdjustmentsCommand(interaction, tracker);
+    return;
+  }
+
+  if (sub === 'export') {
+    await handleFundingExportCommand(interaction, tracker);
+    return;
+  }
+
+  if (sub === 'contributions') {
+    await handleFundingContributionsCommand(interaction, tracker);
+    return;
+  }
+
+  if (sub === 'undo' || sub === 'restore') {
+    await handleFundingRollbackCommand(interaction, tracker, sub);
+    return;
+  }
+}
+
+export async function handleFundingButton(interaction: ButtonInteraction) {
+  // Anyone who may upload a table may also review it.
+  if (interaction.customId.startsWith('funding_review_')) {
+    if (!canUploadFunding(interaction.user.id, interaction.member)) {
+      await interaction.reply({ content: 'Only staff and funding uploaders can review funding uploads.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    await handleFundingReviewButton(interaction);
+    return;
+  }
+
+  if (!isStaffUser(interaction.user.id)) {
+    await interaction.reply({ content: 'Only staff members can manage funding.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  if (interaction.customId.startsWith('funding_history_')) {
+    await handleFundingHistoryButton(interaction);
+    return;
+  }
+
+  if (interaction.customId.startsWith('funding_alias_accept_')) {
+    await handleFundingAliasButton(interaction);
+    return;
+  }
+
+  if (interaction.customId.startsWith('funding_adjustment_void_')) {
+    await handleAdjustmentVoidButton(interaction);
+    return;
+  }
+}
+
+async function handleFundingUpdate(interaction: ChatInputCommandInteraction, tracker: FundingTracker) {
+  const guildId = tracker.guildId;
+  const endDateOption = interaction.options.getString('end_date');
+  const options: FundingRecalcOptions = {
+    endDate: endDateOption?.trim() || null,
+    daysLeftOverride: interaction.options.getInteger('days_left'),
+    addAmount: interaction.options.getNumber('add'),
+    removeAmount: interaction.options.getNumber('remove'),
+    resetAdjustment: interaction.options.getBoolean('reset_adjustment'),
+  };
+  const reason = interaction.options.getString('reason')?.trim() || null;
+  const expiresEndOfWeek = interaction.options.getBoolean('expires_end_of_week') ?? false;
+
+  if (options.endDate && !isValidIsoDate(options.endDate)) {
+    await interaction.reply({ content: '❌ `end_date` must be in YYYY-MM-DD format.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    const channel = await getFundingChannel(interaction.client, tracker);
+    if (!channel) {
+      await interaction.editReply({ content: `❌ Could not access the **${tracker.name}** funding channel.` });
+      return;
+    }
+
+    const existing = await getFundingState(tracker);
+    let source = {
+      messageId: existing?.lastImageMessageId ?? null,
+      imageUrl: existing?.lastImageUrl ?? null,
+      ocrText: existing?.lastOcrText ?? null,
+      neededPenceValues: (existing?.lastParsedNeededValues as number[] | null) ?? [],
+    };
+    let parsedTotalPence = existing?.lastParsedTotalPence ?? null;
+    let rows: FundingRow[] = [];
+
+    // Nothing stored yet: fall back to the most recent screenshot in the funding channel.
+    if (parsedTotalPence === null) {
+      const latest = await findLatestImageMessage(channel);
+      if (!latest) {
+        await interaction.editReply({
+          content: '❌ No funding table has been uploaded yet. Post a screenshot in the funding channel first.',
+        });
+        return;
+      }
+      const { ocr, parsed } = await ocrFundingImage(latest.imageUrl, tracker);
+      source = {
+        messageId: latest.messageId,
+        imageUrl: latest.imageUrl,
+        ocrText: ocr.text,
+        neededPenceValues: parsed.neededPenceValues,
+      };
+      parsedTotalPence = parsed.totalPence;
+      rows = parsed.rows;
+    } else {
+      // funding_states only keeps the values, so take the named rows from the last history entry.
+      const [latestEntry] = await fundingUpdatesHistory.findMany({ where: { guildId, trackerId: tracker.id }, take: 1 });
+      if (latestEntry && latestEntry.imageUrl === source.imageUrl) rows = latestEntry.parsedRows;
+    }
+
+    // Reset voids the active entries first, so "reset + add" leaves just the new amount.
+    if (options.resetAdjustment) await voidAllFundingAdjustments(guildId, tracker.id, interaction.user.id);
+    const ledgerEntry = { guildId, trackerId: tracker.id, reason, userId: interaction.user.id, expiresEndOfWeek };
+    if (options.addAmount) await recordFundingAdjustment({ ...ledgerEntry, amountPence: poundsToPence(options.addAmount) });
+    if (options.removeAmount) {
+      await recordFundingAdjustment({ ...ledgerEntry, amountPence: -poundsToPence(options.removeAmount) });
+    }
+
+    const calc = calculateFundingTargets(
+      {
+        parsedTotalPence,
+        endDate: existing?.endDate ?? getEnvEndDate(tracker),
+        ...(await loadTrackerCalculationInputs(tracker)),
+      },
+      options,
+    );
+
+    await saveFundingState(tracker, calc, source);
+    const historyId = await recordFundingHistory({
+      tracker,
+      userId: interaction.user.id,
+      commandType: 'slash_command',
+      source,
+      rows,
+      calc,
+      options,
+    });
+
+    const pace = await getFundingPace(guildId, tracker.id, calc);
+    await publishFundingTargets(
+      interaction.client,
+      channel,
+      tracker,
+      buildFundingEmbed({
+        calc,
+        rows,
+        currency: tracker.currency,
+        conversion: getReportConversion(tracker),
+        title: '🔄 Funding Targets Updated',
+        updatedByUserId: interaction.user.id,
+        historyId,
+        pace,
+      }),
+    );
+    await postShortfallWarningIfCrossed(channel, guildId, tracker.id, pace, calc.remainingPence, tracker.currency);
+    // A new end date from staff starts a new period; days_left only moves the countdown.
+    await announceFundingMilestones(channel, tracker, { userId: interaction.user.id, calc, startsPeriod: !!options.endDate });
+
+    await interaction.editReply({
+      content: isFundingBoardEnabled()
+        ? `✅ Funding targets recalculated and the board in <#${channel.id}> updated.`
+        : `✅ Funding targets recalculated and posted in <#${channel.id}>.`,
+    });
+  } catch (error: any) {
+    console.error('Error handling /funding update:', error);
+    await interaction.editReply({
+      content: `Error: ${error.message || 'Failed to update funding targets'}`,
+    });
+  }
+}
+
+async function handleAdjustmentVoidButton(interaction: ButtonInteraction) {
+  const guildId = interaction.guildId!;
+  const id = interaction.customId.replace('funding_adjustment_void_', '');
+  const voided = await voidFundingAdjustment(guildId, id, interaction.user.id);
+  if (!voided) {
+    await interaction.reply({ content: 'That adjustment was already voided or no longer exists.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+  const tracker = await getTracker(guildId, voided.trackerId);
+  if (!tracker) {
+    await interaction.update({ components: [] });
+    return; // archived: nothing left to recalculate
+  }
+  // Refresh the list first so the button disappears even if reposting fails.
+  await interaction.update(await buildAdjustmentsMessage(tracker, false));
+
+  const existing = await getFundingState(tracker);
+  if (existing?.lastParsedTotalPence === null || existing?.lastParsedTotalPence === undefined) return;
+  const options: FundingRecalcOptions = { voidAdjustment: true };
+  const calc = calculateFundingTargets(
+    {
+      parsedTotalPence: existing.lastParsedTotalPence,
+      endDate: existing.endDate ?? getEnvEndDate(tracker),
+      ...(await loadTrackerCalculationInputs(tracker)),
+    },
+    options,
+  );
+  const source = {
+    messageId: existing.lastImageMessageId ?? null,
+    imageUrl: existing.lastImageUrl ?? null,
+    ocrText: existing.lastOcrText ?? null,
+    neededPenceValues: (existing.lastParsedNeededValues as number[] | null) ?? [],
+  };
+  await saveFundingState(tracker, calc, source);
+  const [latestEntry] = await fundingUpdatesHistory.findMany({ where: { guildId, trackerId: tracker.id }, take: 1 });
+  const rows = latestEntry && latestEntry.imageUrl === source.imageUrl ? latestEntry.parsedRows : [];
+  const historyId = await recordFundingHistory({
+    tracker,
+    userId: interaction.user.id,
+    commandType: 'slash_command',
+    source,
+    rows,
+    calc,
+    options,
+  });
+
+  const pace = await getFundingPace(guildId, tracker.id, calc);
+  const { currency } = tracker;
+  const embed = buildFundingEmbed({
+    calc,
+    rows,
+    currency,
+    conversion: getReportConversion(tracker),
+    title: '🔄 Funding Targets Updated',
+    historyId,
+    pace,
+  });
+  embed.description =
+    `<@${interaction.user.id}> voided the ${describeAdjustmentAmount(voided.amountPence, currency)} adjustment` +
+    (voided.reason ? ` (${voided.reason})` : '') +
+    ` added by <@${voided.createdBy}>.`;
+  const channel = await getFundingChannel(interaction.client, tracker);
+  await publishFundingTargets(interaction.client, channel, tracker, embed);
+  await postShortfallWarningIfCrossed(channel, guildId, tracker.id, pace, calc.remainingPence, currency);
+  await announceFundingMilestones(channel, tracker, { userId: interaction.user.id, calc });
+}
+
+/** The last screenshot upload (recalculations reuse its rows, so they are skipped). */
+async function getPreviousUpload(tracker: FundingTracker) {
+  try {
+    const [previous] = await fundingUpdatesHistory.findMany({
+      where: { guildId: tracker.guildId, trackerId: tracker.id, commandType: ['text_command', 'rollback'] },
+      take: 1,
+    });
+    return previous ?? null;
+  } catch (error) {
+    // Only used for the row diff and alias suggestions; never block posting the new targets on it.
+    console.error('[Funding] Failed to load previous upload:', error);
+    return null;
+  }
+}
+
+type SavedFundingUpload = {
+  calc: FundingCalculation;
+  historyId: string | null;
+  rowDiff: { diff: FundingRowDiff; previousUploadAt: string } | null;
+  aliasSuggestions: ReturnType<typeof suggestRowAliases>;
+  pace: Awaited<ReturnType<typeof getFundingPace>>;
+};
+
+/**
+ * Calculate and persist the targets, history and contributions for an upload whose rows are
+ * final. Throws only before the state is saved, so a failure means nothing was written.
+ */
+async function saveFundingUpload(client: Client, tracker: FundingTracker, upload: PendingFundingUpload): Promise<SavedFundingUpload> {
+  const neededPenceValues = upload.rows.filter((r) => r.neededPence !== null).map((r) => r.neededPence!);
+  const parsedTotalPence = neededPenceValues.reduce((sum, v) => sum + v, 0);
+
+  const existing = await getFundingState(tracker);
+  const previous = await getPreviousUpload(tracker);
+  const rowDiff =
+    previous && previous.parsedRows.length > 0
+      ? { diff: diffFundingRows(previous.parsedRows, upload.rows), previousUploadAt: previous.calculatedAt }
+      : null;
+  const aliases = await loadRowAliases(upload.guildId);
+  const aliasSuggestions = suggestRowAliases(upload.guildId, upload.rows, [
+    ...(previous?.parsedRows.map((r) => r.name) ?? []),
+    ...aliases.values(),
+  ]);
+  const calc = calculateFundingTargets({
+    parsedTotalPence,
+    endDate: existing?.endDate ?? getEnvEndDate(tracker),
+    ...(await loadTrackerCalculationInputs(tracker)),
+  });
+
+  const source = {
+    messageId: upload.messageId,
+    imageUrl: upload.imageUrl,
+    ocrText: upload.ocrText,
+    neededPenceValues,
+  };
+  await saveFundingState(tracker, calc, source);
+  // From here on nothing throws: history, contributions and pace log their own failures.
+  const historyId = await recordFundingHistory({
+    tracker,
+    userId: upload.userId,
+    commandType: 'text_command',
+    source,
+    imageHash: upload.imageHash,
+    rows: upload.rows,
+    calc,
+  });
+  if (historyId && previous) {
+    await recordFundingContributions(client, { tracker, historyId, previous, parsedTotalPence });
+  }
+
+  const pace = await getFundingPace(tracker.guildId, tracker.id, calc);
+  return { calc, historyId, rowDiff, aliasSuggestions, pace };
 }
 
-function sanitizeEmbedFields(fields: { name: string; value: string; inline?: boolean }[], maxBytes = 1000) {
-  for (const f of fields) {
-    // names have their own limits but ours are already short; still sanitize values hard.
-    if (typeof f.value === 'string') f.value = sanitizeEmbedText(f.value, maxBytes);
+/** Post the targets, warnings and milestones for a saved upload. Never throws: the upload is already saved. */
+async function postFundingUpload(
+  client: Client,
+  channel: { send: (...args: any[]) => Promise<any> },
+  tracker: FundingTracker,
+  upload: PendingFundingUpload,
+  saved: SavedFundingUpload,
+  confirmedByUserId?: string,
+) {
+  const { calc, historyId, rowDiff, aliasSuggestions, pace } = saved;
+  try {
+    const embed = buildFundingEmbed({
+      calc,
+      rows: upload.rows,
+      currency: tracker.currency,
+      conversion: getReportConversion(tracker),
+      updatedByUserId: upload.userId,
+      historyId,
+      rowDiff,
+      pace,
+    });
+    if (confirmedByUserId) embed.description = `Uploaded by <@${upload.userId}> • reviewed by <@${confirmedByUserId}>`;
+    const components: any[] = [];
+    let aliasField: { name: string; value: string } | null = null;
+    if (aliasSuggestions.length > 0) {
+      const { field, row } = buildAliasSuggestionMessageParts(aliasSuggestions);
+      embed.fields.push(field);
+      components.push(row);
+      aliasField = field;
+    }
+    if (isFundingBoardEnabled()) {
+      // The board holds the targets; the channel only gets a short note of what this upload changed.
+      await refreshFundingBoard(client, tracker);
+      const changes = rowDiff && hasRowChanges(rowDiff.diff) ? `\n${renderRowDiffForEmbed(rowDiff.diff, tracker.currency)}` : '';
+      await channel.send({
+        content: sanitizeEmbedText(
+          `📌 Funding board updated: **${formatPence(calc.remainingPence, tracker.currency)}** remaining.${changes}` +
+            (aliasField ? `\n\n**${aliasField.name}**\n${aliasField.value}` : ''),
+          1900,
+        ),
+        components,
+      });
+    } else {
+      await channel.send({ embeds: [embed], components });
+    }
+  } catch (error) {
+    console.error('Failed to post funding update:', error);
   }
+  await postShortfallWarningIfCrossed(channel, tracker.guildId, tracker.id, pace, calc.remainingPence, tracker.currency);
+  await announceFundingMilestones(channel, tracker, {
+    userId: upload.userId,
+    calc,
+    completedRows: rowDiff?.diff.reachedZero ?? [],
+  });
 }
 
-function renderRowsForEmbed(
-  rows: { name: string; neededPence: number | null; confidence: number }[],
-  currencySymbol: string,
-  maxLines = 999, // Show all rows by default (Discord embed limit is 1024 chars per field)
-): { text: string; flaggedCount: number } {
-  // Sort: rows with values first (by value desc), then rows without values
-  const sorted = [...rows].sort((a, b) => {
-    if (a.neededPence === null && b.neededPence === null) return 0;
-    if (a.neededPence === null) return 1;
-    if (b.neededPence === null) return -1;
-    return b.neededPence - a.neededPence;
+/** Post the celebration for milestones an upload or adjustment crossed and rows it completed. Never throws. */
+async function announceFundingMilestones(
+  channel: { send: (...args: any[]) => Promise<any> } | null,
+  tracker: FundingTracker,
+  input: { userId: string; calc: FundingCalculation; completedRows?: string[]; startsPeriod?: boolean },
+) {
+  const celebration = await checkFundingMilestones({
+    guildId: tracker.guildId,
+    trackerId: tracker.id,
+    userId: input.userId,
+    calc: input.calc,
+    completedRows: input.completedRows ?? [],
+    currency: tracker.currency,
+    startsPeriod: input.startsPeriod,
   });
-  let flaggedCount = 0;
-
-  const lines: string[] = [];
-  // Discord's field value limit is 1024; enforce by bytes to avoid unicode surprises.
-  const MAX_FIELD_BYTES = 900; // leave buffer for truncation marker
-  let currentBytes = 0;
-  
-  for (const r of sorted) {
-    const lowConf = r.confidence < 60;
-    if (lowConf) flaggedCount++;
-    const flag = lowConf ? '⚠️' : '';
-    // Make names even shorter (12 chars max)
-    const name = r.name.length > 12 ? r.name.slice(0, 11) + '…' : r.name;
-    const valueStr = r.neededPence === null ? '—' : formatPence(r.neededPence, currencySymbol);
-    // Ultra compact format: flag name value (no confidence shown to save space)
-    const line = `${flag} **${name}** ${valueStr}`;
-    
-    // Check if adding this line would exceed the limit
-    const lineWithNewline = line + '\n';
-    const lineBytes = Buffer.byteLength(lineWithNewline, 'utf8');
-    if (currentBytes + lineBytes > MAX_FIELD_BYTES && lines.length > 0) {
-      const remaining = Math.max(0, sorted.length - lines.length);
-      const truncMsg = remaining > 0 ? `\n…${remaining} more` : `\n…`;
-      const truncBytes = Buffer.byteLength(truncMsg, 'utf8');
-      if (currentBytes + truncBytes <= 1000) lines.push(truncMsg);
-      break;
-    }
-    
-    lines.push(line);
-    currentBytes += lineBytes;
-  }
-  
-  const result = lines.join('\n');
-  // Hard limit: never exceed 1000 bytes (well under 1024)
-  return { text: sanitizeEmbedText(result, 1000), flaggedCount };
+  if (celebration) {
+    await channel
+      ?.send({ embeds: [celebration] })
+      .catch((error) => console.error('Failed to post funding milestone:', error));
+  }
+}
+
+async function handleFundingReviewButton(interaction: ButtonInteraction) {
+  const match = interaction.customId.match(/^funding_review_(edit|confirm|discard)_([^_]+)(?:_(\d+))?$/);
+  if (!match) return;
+  const [, action, reviewId, indexStr] = match;
+
+  if (action === 'edit') {
+    const shown = await showFundingReviewEditModal(interaction, reviewId, Number(indexStr));
+    if (!shown) {
+      await interaction.reply({
+        content: 'This review has expired. Please re-upload the screenshot.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+    return;
+  }
+
+  const review = getFundingReview(reviewId);
+  const upload = takeFundingReview(reviewId);
+  if (!review || !upload) {
+    await interaction.update({ components: [] });
+    await interaction.followUp({
+      content: 'This review has expired. Please re-upload the screenshot.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (action === 'discard') {
+    await interaction.update({
+      content: `🗑️ Upload discarded by <@${interaction.user.id}>. Funding targets were not changed.`,
+      embeds: [],
+      components: [],
+    });
+    return;
+  }
+
+  if (upload.rows.length === 0) {
+    await interaction.update({ content: '⚠️ All rows were removed, nothing to save.', embeds: [], components: [] });
+    return;
+  }
+
+  const tracker = await getTracker(upload.guildId, upload.trackerId);
+  if (!tracker) {
+    await interaction.update({ content: '⚠️ This tracker was archived, nothing to save.', embeds: [], components: [] });
+    return;
+  }
+
+  // Saving can take a while; the review only shows as confirmed once it has actually been saved.
+  await interaction.deferUpdate();
+  const channel = await getFundingChannel(interaction.client, tracker);
+  let saved: SavedFundingUpload;
+  try {
+    if (!channel) throw new Error(`Could not access the **${tracker.name}** funding channel`);
+    saved = await saveFundingUpload(interaction.client, tracker, upload);
+  } catch (error: any) {
+    console.error('Failed to save reviewed funding upload:', error);
+    restoreFundingReview(review);
+    await interaction.followUp({
+      content: `❌ ${error.message || 'Failed to save the upload'}. Nothing was saved and the review is still pending.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+  await interaction
+    .editReply({ content: `✅ Reviewed and confirmed by <@${interaction.user.id}>.`, components: [] })
+    .catch((error) => console.error('Failed to mark funding review confirmed:', error));
+  await postFundingUpload(interaction.client, channel, tracker, upload, saved, interaction.user.id);
+}
+
+export async function handleFundingModal(interaction: ModalSubmitInteraction) {
+  const match = interaction.customId.match(/^funding_review_modal_([^_]+)_(\d+)$/);
+  if (!match) return;
+
+  if (!canUploadFunding(interaction.user.id, interaction.member)) {
+    await interaction.reply({ content: 'Only staff and funding uploaders can review funding uploads.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const [, reviewId, indexStr] = match;
+  const pending = getFundingReview(reviewId);
+  const tracker = pending ? await getTracker(pending.upload.guildId, pending.upload.trackerId) : null;
+  const error = applyFundingReviewEdit(
+    reviewId,
+    Number(indexStr),
+    interaction.fields.getTextInputValue('name'),
+    interaction.fields.getTextInputValue('amount'),
+    tracker?.currency,
+  );
+  if (error) {
+    await interaction.reply({ content: `❌ ${error}`, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const review = getFundingReview(reviewId);
+  if (review && interaction.isFromMessage()) {
+    await interaction.update(buildFundingReviewMessage(review, tracker?.currency));
+  } else {
+    await interaction.reply({ content: '✅ Row updated.', flags: MessageFlags.Ephemeral });
+  }
 }
 
 export async function handleFundingChannelMessage(message: Message) {
   const env = getEnv();
-  if (!env.FUNDING_CHANNEL_ID) return; // feature disabled
   if (!message.guild || !message.channel.isTextBased()) return;
   if (message.author.bot) return;
-  if (message.channel.id !== env.FUNDING_CHANNEL_ID) return;
   if (!('send' in message.channel)) return;
   const sendableChannel = message.channel as unknown as { send: (...args: any[]) => Promise<any> };
-  const currencySymbol = '$'; // Always dollar
 
   const image = message.attachments.find((a) => isImageAttachment(a));
-  if (!image?.url) return;
+  const tableFile = image ? undefined : message.attachments.find((a) => getTableAttachmentKind(a) !== null);
+  const pastedTable = image || tableFile ? null : parsePastedTable(message.content);
+  if (!image?.url && !tableFile?.url && !pastedTable) return;
+
+  // Each tracker owns one channel; uploads anywhere else are not funding uploads.
+  const tracker = await findTrackerByChannel(message.guild.id, message.channel.id);
+  if (!tracker) return;
+  const { currency } = tracker;
+
+  if (!canUploadFunding(message.author.id, message.member)) {
+    // Chat that merely contains '|' or tabs is not an upload; only text that reads as a funding table is turned away.
+    if (pastedTable && !extractNeededValuesFromTable(pastedTable, { currency })?.rows.length) return;
+    await rejectFundingUpload(message);
+    return;
+  }
 
   try {
-    const buffer = await fetchBuffer(image.url);
-    const ocr = await recognizeImage(buffer);
-    const parsed = extractNeededValuesFromWords(ocr.words);
-
-    await prisma.fundingState.upsert({
-      where: { guildId: message.guild.id },
-      create: {
-        guildId: message.guild.id,
-        channelId: env.FUNDING_CHANNEL_ID,
-        endDate: env.FUNDING_END_DATE && isValidIsoDate(env.FUNDING_END_DATE) ? env.FUNDING_END_DATE : null,
-        manualAdjustmentPence: 0,
-        lastImageMessageId: message.id,
-        lastImageUrl: image.url,
-        lastOcrText: ocr.text,
-        lastParsedNeededValues: parsed.neededPenceValues,
-        lastParsedTotalPence: parsed.totalPence,
-      },
-      update: {
-        channelId: env.FUNDING_CHANNEL_ID,
-        lastImageMessageId: message.id,
-        lastImageUrl: image.url,
-        lastOcrText: ocr.text,
-        lastParsedNeededValues: parsed.neededPenceValues,
-        lastParsedTotalPence: parsed.totalPence,
-      },
-    });
-    
+    let source: { imageUrl: string; imageHash: string | null; ocrText: string; parsed: NeededParseResult };
+    if (image?.url) {
+      const { ocr, parsed, preprocessed, imageHash } = await ocrFundingImage(image.url, tracker);
+
+      if (env.OCR_DEBUG_IMAGES === 'true' && preprocessed) {
+        await sendableChannel
+          .send({
+            content: `🔬 OCR input (${preprocessed.applied.join(', ') || 'no changes'})`,
+            files: [{ attachment: preprocessed.buffer, name: 'ocr-input.png' }],
+          })
+          .catch((error) => console.error('Failed to post OCR debug image:', error));
+      }
+
+      if (parsed.rows.length === 0) {
+        await sendableChannel.send({
+          content: '⚠️ Could not find any rows or amounts in that image. Please crop tightly to the table and try again.',
+        });
+        return;
+      }
+      source = { imageUrl: image.url, imageHash, ocrText: ocr.text, parsed };
+    } else {
+      const table = await readFundingTable(tableFile ?? null, pastedTable, tracker);
+      if (!table.parsed || table.parsed.rows.length === 0) {
+        // Pasted text that is not a funding table is ordinary chat; only files get a reply.
+        if (!tableFile) return;
+        await sendableChannel.send({
+          content: '⚠️ Could not find a Needed column in that spreadsheet. Give the table a header row with Name and Needed columns and try again.',
+        });
+        return;
+      }
+      source = { imageUrl: tableFile?.url ?? '', imageHash: null, ocrText: table.text, parsed: table.parsed };
+    }
+    const { parsed } = source;
+
+    const upload: PendingFundingUpload = {
+      guildId: message.guild.id,
+      trackerId: tracker.id,
+      userId: message.author.id,
+      messageId: message.id,
+      imageUrl: source.imageUrl,
+      imageHash: source.imageHash,
+      ocrText: source.ocrText,
+      rows: parsed.rows,
+    };
+
+    // Hold back uploads with doubtful rows, or that look like a repeat of an earlier upload, until staff have checked them.
+    const warnings = await findUploadWarnings(upload, currency);
+    if (warnings.length > 0 || getSuspectRowIndexes(parsed.rows).length > 0) {
+      const review = createFundingReview(upload, warnings);
+      await sendableChannel.send(buildFundingReviewMessage(review, currency));
+      return;
+    }
+
+    const saved = await saveFundingUpload(message.client, tracker, upload);
+    await postFundingUpload(message.client, sendableChannel, tracker, upload, saved);
   } catch (err: any) {
+    if (err instanceof OcrBusyError) {
+      await sendableChannel.send({ content: `⏳ ${err.message}` }).catch(() => {});
+      return;
+    }
+    if (!image) {
+      console.error('Failed to process funding table:', err);
+      await sendableChannel.send({ content: `❌ Failed to read that table: ${err.message || 'unknown error'}` }).catch(() => {});
+      return;
+    }
     console.error('Failed to process funding channel image:', err);
     await sendableChannel.send({ content: '❌ Failed to process the image. Please try re-uploading a clearer screenshot (crop tightly to the table).' }).catch(() => {});
   }
 }
 
+async function rejectFundingUpload(message: Message) {
+  const notice = await message
+    .reply({
+      content:
+        'Thanks for sharing! Only staff can update the funding targets, so this upload was not processed. ' +
+        'Please ask a staff member to post it.',
+    })
+    .catch(() => null);
+  if (notice) setTimeout(() => notice.delete().catch(() => {}), REJECTION_NOTICE_TTL_MS);
+
+  await postFundingAuditNote(
+    message.client,
+    `🚫 <@${message.author.id}> posted a funding table in <#${message.channelId}> but is not allowed to upload funding tables: ${message.url}`,
+  );
+}
+
+type FundingHistoryEntry = NonNullable<Awaited<ReturnType<typeof fundingUpdatesHistory.findUnique>>>;
+
+/**
+ * Make an earlier history entry the current funding state and record the rollback in history.
+ * The end date is kept unless the entry set one explicitly; the manual adjustment is only taken
+ * from the entry when restoreAdjustment is set. Credits for the uploads it undoes are removed.
+ */
+async function restoreFundingEntry(
+  tracker: FundingTracker,
+  entry: FundingHistoryEntry,
+  options: { userId: string; restoreAdjustment: boolean },
+) {
+  const existing = await getFundingState(tracker);
+  let manualAdjustmentPence = await getCurrentAdjustmentPence(tracker.guildId, tracker.id);
+  if (options.restoreAdjustment && manualAdjustmentPence !== entry.manualAdjustmentPence) {
+    // The ledger stays the source of truth: bring it back to the old total with one correcting entry.
+    await recordFundingAdjustment({
+      guildId: tracker.guildId,
+      trackerId: tracker.id,
+      amountPence: entry.manualAdjustmentPence - manualAdjustmentPence,
+      reason: `Restore to history ${entry.id.slice(0, 8)}`,
+      userId: options.userId,
+    });
+    manualAdjustmentPence = entry.manualAdjustmentPence;
+  }
+  const calc = calculateFundingTargets({
+    parsedTotalPence: entry.parsedTotalPence,
+    endDate: entry.endDateOverride ?? existing?.endDate ?? getEnvEndDate(tracker),
+    ...(await loadTrackerCalculationInputs(tracker)),
+    manualAdjustmentPence,
+  });
+  const source = {
+    messageId: entry.messageId,
+    imageUrl: entry.imageUrl,
+    ocrText: entry.ocrText,
+    neededPenceValues: entry.parsedNeededValues,
+  };
+  await saveFundingState(tracker, calc, source);
+  await removeRolledBackContributions(tracker, entry.calculatedAt);
+  const historyId = await recordFundingHistory({
+    tracker,
+    userId: options.userId,
+    commandType: 'rollback',
+    source,
+    imageHash: entry.imageHash,
+    rows: entry.parsedRows,
+    calc,
+  });
+
+  const pace = await getFundingPace(tracker.guildId, tracker.id, calc);
+  const embed = buildFundingEmbed({
+    calc,
+    rows: entry.parsedRows,
+    currency: tracker.currency,
+    conversion: getReportConversion(tracker),
+    title: '↩️ Funding Targets Rolled Back',
+    historyId,
+    pace,
+  });
+  return { calc, historyId, embed, pace };
+}
+
+/** Full UUIDs are looked up directly; the 8-character ids shown in embeds are matched against recent history. */
+async function findHistoryEntryById(tracker: FundingTracker, id: string): Promise<FundingHistoryEntry | null> {
+  const needle = id.trim().toLowerCase();
+  if (/^[0-9a-f-]{36}$/.test(needle)) {
+    const entry = await fundingUpdatesHistory.findUnique({ where: { id: needle } });
+    return entry && entry.guildId === tracker.guildId && entry.trackerId === tracker.id ? entry : null;
+  }
+  if (needle.length < 4) return null;
+  const recent = await fundingUpdatesHistory.findMany({
+    where: { guildId: tracker.guildId, trackerId: tracker.id },
+    take: 200,
+  });
+  const matches = recent.filter((entry) => entry.id.startsWith(needle));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+async function handleFundingRollbackCommand(
+  interaction: ChatInputCommandInteraction,
+  tracker: FundingTracker,
+  sub: 'undo' | 'restore',
+) {
+  const guildId = tracker.guildId;
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    let entry: FundingHistoryEntry | null = null;
+    if (sub === 'restore') {
+      const id = interaction.options.getString('id', true);
+      entry = await findHistoryEntryById(tracker, id);
+      if (!entry) {
+        await interaction.editReply({
+          content: `❌ No history entry matches \`${id}\` (or it is ambiguous). Copy the id from \`/funding history\`.`,
+        });
+        return;
+      }
+    } else {
+      // The upload before the one the current targets are based on, so repeated undos keep stepping back.
+      const state = await getFundingState(tracker);
+      const uploads = await fundingUpdatesHistory.findMany({
+        where: { guildId, trackerId: tracker.id, commandType: 'text_command' },
+        take: 50,
+      });
+      const currentIndex = uploads.findIndex(
+        (u) =>
+          (state?.lastImageMessageId && u.messageId === state.lastImageMessageId) ||
+          (state?.lastImageUrl && u.imageUrl && isSameAttachment(u.imageUrl, state.lastImageUrl)),
+      );
+      entry = uploads[currentIndex + 1] ?? null;
+      if (!entry) {
+        await interaction.editReply({ content: '❌ There is no earlier upload to go back to.' });
+        return;
+      }
+    }
+
+    const { calc, embed, pace } = await restoreFundingEntry(tracker, entry, {
+      userId: interaction.user.id,
+      restoreAdjustment: true,
+    });
+    const when = Math.floor(new Date(entry.calculatedAt).getTime() / 1000);
+    const what = `\`${entry.id.slice(0, 8)}\` (<t:${when}:f>, by <@${entry.userId}>)`;
+    embed.description = `<@${interaction.user.id}> ${sub === 'undo' ? 'undid the latest upload' : 'restored a previous calculation'}: ${what}.`;
+
+    const channel = await getFundingChannel(interaction.client, tracker);
+    await publishFundingTargets(interaction.client, channel, tracker, embed);
+    await postShortfallWarningIfCrossed(channel, guildId, tracker.id, pace, calc.remainingPence, tracker.currency);
+    await postFundingAuditNote(
+      interaction.client,
+      `↩️ <@${interaction.user.id}> used /funding ${sub} to restore ${what}.`,
+    );
+    await interaction.editReply({
+      content: `✅ Restored ${what}. Remaining: **${formatPence(calc.remainingPence, tracker.currency)}**, daily target **${formatPence(calc.dailyTargetPence, tracker.currency)}**.`,
+    });
+  } catch (error: any) {
+    console.error(`Error handling /funding ${sub}:`, error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to roll back funding targets'}` });
+  }
+}
+
+/**
+ * Put the targets back to the newest earlier upload whose screenshot still exists,
+ * keeping the current end date and manual adjustment.
+ */
+async function rollbackFundingUpload(client: Client, tracker: FundingTracker, removedMessageId: string, reason: string) {
+  const channel = await getFundingChannel(client, tracker);
+  const candidates = (
+    await fundingUpdatesHistory.findMany({
+      where: { guildId: tracker.guildId, trackerId: tracker.id, commandType: ['text_command', 'rollback'] },
+      take: 20,
+    })
+  ).filter((entry) => entry.messageId !== removedMessageId);
+
+  let restore: (typeof candidates)[number] | null = null;
+  for (const entry of candidates) {
+    // Skip uploads whose screenshot has since been deleted as well.
+    if (entry.messageId && channel && !(await channel.messages.fetch(entry.messageId).catch(() => null))) continue;
+    restore = entry;
+    break;
+  }
+
+  if (!restore) {
+    await postFundingAuditNote(client, `↩️ Funding screenshot ${removedMessageId} was removed (${reason}); no earlier upload to roll back to.`);
+    await channel
+      ?.send({ content: `⚠️ The screenshot behind the current targets was removed (${reason}), but there is no earlier upload to roll back to.` })
+      .catch(() => {});
+    return;
+  }
+
+  // Nobody can be credited with a delete, so the rollback is attributed to the original uploader.
+  const { calc, embed, pace } = await restoreFundingEntry(tracker, restore, {
+    userId: restore.userId,
+    restoreAdjustment: false,
+  });
+  const when = Math.floor(new Date(restore.calculatedAt).getTime() / 1000);
+  embed.description = `The latest screenshot was removed (${reason}). Restored the upload by <@${restore.userId}> from <t:${when}:f>.`;
+  await publishFundingTargets(client, channel, tracker, embed);
+  await postShortfallWarningIfCrossed(channel, tracker.guildId, tracker.id, pace, calc.remainingPence, tracker.currency);
+  await postFundingAuditNote(
+    client,
+    `↩️ Funding screenshot ${removedMessageId} was removed (${reason}); targets rolled back to upload \`${restore.id.slice(0, 8)}\`.`,
+  );
+}
+
+export async function handleFundingMessageUpdate(
+  _oldMessage: Message | PartialMessage,
+  newMessage: Message | PartialMessage,
+) {
+  if (!newMessage.guildId) return;
+
+  try {
+    const tracker = await findTrackerByChannel(newMessage.guildId, newMessage.channelId);
+    if (!tracker) return;
+    const message = newMessage.partial ? await newMessage.fetch().catch(() => null) : newMessage;
+    if (!message || message.author.bot) return;
+
+    // Only the screenshot behind the current targets matters; edits to older uploads change nothing.
+    const state = await getFundingState(tracker);
+    if (!state || state.lastImageMessageId !== message.id) return;
+
+    const upload =
+      message.attachments.find((a) => isImageAttachment(a)) ??
+      message.attachments.find((a) => getTableAttachmentKind(a) !== null);
+    const pastedTable = upload ? null : parsePastedTable(message.content);
+    if (!upload?.url && !pastedTable) {
+      await rollbackFundingUpload(message.client, tracker, message.id, 'its image or table was removed from the message');
+      return;
+    }
+    if (upload && state.lastImageUrl && isSameAttachment(state.lastImageUrl, upload.url)) return; // text edit or link unfurl
+    if (pastedTable && state.lastOcrText === tableToText(pastedTable)) return; // link unfurl or an edit outside the table
+
+    await handleFundingChannelMessage(message);
+  } catch (error) {
+    console.error('Failed to handle edited funding message:', error);
+  }
+}
+
+export async function handleFundingMessageDelete(message: Message | PartialMessage) {
+  if (!message.guildId) return;
+
+  try {
+    const tracker = await findTrackerByChannel(message.guildId, message.channelId);
+    if (!tracker) return;
+    if (await isFundingBoardMessage(tracker, message.id)) {
+      await refreshFundingBoard(message.client, tracker); // posts a new board in its place
+      return;
+    }
+    const state = await getFundingState(tracker);
+    if (!state || state.lastImageMessageId !== message.id) return;
+    await rollbackFundingUpload(message.client, tracker, message.id, 'the message was deleted');
+  } catch (error) {
+    console.error('Failed to roll back deleted funding message:', error);
+  }
+}
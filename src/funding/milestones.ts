@@ -0,0 +1,104 @@
+import { fundingPeriods } from '../db/index.js';
+import { getEnv, getFundingMilestonePercents } from '../env.js';
+import { formatPence, type CurrencyCode } from './money.js';
+import { sanitizeEmbedText } from './render.js';
+
+type MilestoneCalc = {
+  remainingPence: number;
+  endOfWeekDate: string;
+  shiftInfo: { currentShift: string; shiftDayIsoDate: string };
+};
+
+/**
+ * Work out what an upload or adjustment completed: remaining-total milestones (as a share of the
+ * period's starting total) and rows that reached zero. A period only starts explicitly: on the
+ * first check, when startsPeriod is set (staff gave a new end date), or when the total rises again
+ * after the goal was reached. That check only records the starting total. Returns the celebration
+ * embed, or null when there is nothing to announce. Never throws.
+ */
+export async function checkFundingMilestones(input: {
+  guildId: string;
+  trackerId: string;
+  userId: string;
+  calc: MilestoneCalc;
+  completedRows: string[];
+  currency?: CurrencyCode;
+  startsPeriod?: boolean;
+}) {
+  const { guildId, trackerId, calc } = input;
+  const currency = input.currency ?? 'USD';
+  let crossed: number[] = [];
+  let period: Awaited<ReturnType<typeof fundingPeriods.findUnique>>;
+
+  try {
+    period = await fundingPeriods.findUnique({ where: { guildId, trackerId } });
+    // 0 is kept once the goal is reached (even when not celebrated), so the next rise starts a new goal.
+    const goalReopened =
+      period !== null && calc.remainingPence > 0 && (period.startTotalPence === 0 || period.announcedMilestones.includes(0));
+    if (!period || input.startsPeriod || goalReopened) {
+      period = await fundingPeriods.upsert({
+        guildId,
+        trackerId,
+        endDate: calc.endOfWeekDate,
+        startTotalPence: calc.remainingPence,
+        startedAt: new Date().toISOString(),
+        announcedMilestones: [],
+      });
+    } else if (period.startTotalPence > 0) {
+      const remainingPercent = (Math.max(0, calc.remainingPence) / period.startTotalPence) * 100;
+      crossed = getFundingMilestonePercents(getEnv()).filter(
+        (p) => remainingPercent <= p && !period!.announcedMilestones.includes(p),
+      );
+      const reached = [...crossed, ...(calc.remainingPence <= 0 && !crossed.includes(0) ? [0] : [])].filter(
+        (p) => !period!.announcedMilestones.includes(p),
+      );
+      if (reached.length > 0) {
+        await fundingPeriods.upsert({ ...period, announcedMilestones: [...period.announcedMilestones, ...reached] });
+      }
+    }
+  } catch (error) {
+    console.error('[Funding] Failed to check milestones:', error);
+    return null;
+  }
+
+  if (crossed.length === 0 && input.completedRows.length === 0) return null;
+
+  const fmt = (pence: number) => formatPence(pence, currency);
+  // Several milestones can fall in one upload; the lowest one is the news.
+  const milestone = crossed.length > 0 ? Math.min(...crossed) : null;
+  const title =
+    milestone === 0
+      ? '🏁 Funding Goal Reached!'
+      : milestone !== null
+        ? `🎉 Milestone: ${milestone}% Left`
+        : `✅ ${input.completedRows.length === 1 ? 'Row' : 'Rows'} Completed`;
+  const started = Math.floor(new Date(period.startedAt).getTime() / 1000);
+  const description =
+    milestone === 0
+      ? `Everything is cleared, down from **${fmt(period.startTotalPence)}** at the start of the period (<t:${started}:D>).`
+      : milestone !== null
+        ? `**${fmt(calc.remainingPence)}** left of the **${fmt(period.startTotalPence)}** we started with on <t:${started}:D>.`
+        : undefined;
+
+  const fields = [];
+  if (input.completedRows.length > 0) {
+    fields.push({
+      name: `✅ Completed (${input.completedRows.length})`,
+      value: sanitizeEmbedText(input.completedRows.map((name) => `**${name}**`).join(', ')),
+      inline: false,
+    });
+  }
+  fields.push({
+    name: '🕒 When',
+    value: `${calc.shiftInfo.currentShift} shift, ${calc.shiftInfo.shiftDayIsoDate} • updated by <@${input.userId}>`,
+    inline: false,
+  });
+
+  return {
+    title,
+    description,
+    fields,
+    color: 0xfacc15,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -1,44 +1,103 @@
+export const CURRENCY_CODES = ['USD', 'GBP', 'EUR'] as const;
+export type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+// Each currency is written the way its home locale writes it: $1,234.56, £1,234.56, 1.234,56 €.
+const CURRENCY_LOCALES: Record<CurrencyCode, string> = { USD: 'en-US', GBP: 'en-GB', EUR: 'de-DE' };
+
+const formatters = new Map<CurrencyCode, Intl.NumberFormat>();
+
+export function isCurrencyCode(code: string): code is CurrencyCode {
+  return (CURRENCY_CODES as readonly string[]).includes(code);
+}
+
 export function poundsToPence(amount: number): number {
   // Discord "NumberOption" is a JS number; round to nearest penny.
   return Math.round(amount * 100);
 }
 
-export function parseMoneyToPence(input: string): number | null {
+// The separator each currency's home locale writes before the cents; the other one groups thousands.
+const DECIMAL_SEPARATORS: Record<CurrencyCode, '.' | ','> = { USD: '.', GBP: '.', EUR: ',' };
+
+/**
+ * Work out which of '.' and ',' is the decimal separator in an amount. When both appear the later
+ * one is; a single separator before one or two digits is too. Only a single separator before three
+ * digits ("1.234", "12,345") is ambiguous, and is read the way the currency writes its decimals.
+ */
+function splitDecimal(amount: string, currency: CurrencyCode): { whole: string; frac: string } | null {
+  const lastDot = amount.lastIndexOf('.');
+  const lastComma = amount.lastIndexOf(',');
+  let decimal: '.' | ',' | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const count = amount.split(separator).length - 1;
+    const digitsAfter = amount.length - amount.lastIndexOf(separator) - 1;
+    if (count === 1 && (digitsAfter !== 3 || separator === DECIMAL_SEPARATORS[currency])) decimal = separator;
+  }
+
+  const decimalAt = decimal ? amount.lastIndexOf(decimal) : -1;
+  const whole = decimalAt >= 0 ? amount.slice(0, decimalAt) : amount;
+  const frac = decimalAt >= 0 ? amount.slice(decimalAt + 1) : '';
+  const grouping = decimal === ',' ? '.' : decimal === '.' ? ',' : whole.includes('.') ? '.' : ',';
+  // Thousands separators come every three digits; anything else (e.g. "12.3.4") is not an amount.
+  if (whole.includes(grouping) && !new RegExp(`^\\d{1,3}(?:\\${grouping}\\d{3})+$`).test(whole)) return null;
+  return { whole: whole.split(grouping).join(''), frac };
+}
+
+/**
+ * Read an amount such as "$1,234.56", "1.234,56 €", "12.50 usd" or an OCR misread like "S00.00" as
+ * minor units. The currency only decides amounts whose separator could be either (see splitDecimal).
+ */
+export function parseMoneyToPence(input: string, currency: CurrencyCode = 'USD'): number | null {
   const s = input.trim();
   if (!s) return null;
-  
-  // More robust cleaning: remove currency symbols, commas, spaces, and common OCR errors
-  // Handle cases like "$1,234.56", "£1234.56", "1234.56$", etc.
-  let cleaned = s
-    .replace(/[£$]/g, '') // Remove currency symbols
-    .replace(/,/g, '') // Remove thousand separators
-    .replace(/\s+/g, '') // Remove spaces
+
+  // More robust cleaning: remove currency symbols, spaces, and common OCR errors
+  // Handle cases like "$1,234.56", "£1234.56", "1234.56$", "€12.50", "1,234.56 USD", "1.234,56 €", etc.
+  const cleaned = s
+    .replace(/USD|GBP|EUR/gi, '') // Remove currency codes before the letter fixes below turn them into digits
+    .replace(/[£$€]/g, '') // Remove currency symbols
+    .replace(/\s+/g, '') // Remove spaces (also used as thousands separators)
     .replace(/[Oo]/g, '0') // Common OCR error: O instead of 0
     .replace(/[Il1]/g, '1') // Common OCR error: I or l instead of 1
     .replace(/[S5]/g, '5') // Common OCR error: S instead of 5
     .replace(/[Z2]/g, '2'); // Common OCR error: Z instead of 2 (less common but possible)
-  
-  // Match patterns like: digits.digits, digits, or just digits
+
+  if (!/^[\d.,]+$/.test(cleaned)) return null;
+  const parts = splitDecimal(cleaned, currency);
+  if (!parts) return null;
+
   // More lenient: allow up to 3 decimal places (will truncate to 2)
-  const moneyPattern = /^(\d+)(?:\.(\d{1,3}))?$/;
-  const match = cleaned.match(moneyPattern);
-  if (!match) return null;
-  
-  const whole = match[1] || '0';
-  const frac = (match[2] || '').padEnd(2, '0').slice(0, 2); // Pad to 2 digits, take first 2
-  
-  const pence = Number(whole) * 100 + Number(frac);
+  if (!/^\d+$/.test(parts.whole) || !/^\d{0,3}$/.test(parts.frac)) return null;
+  if (cleaned.endsWith('.') || cleaned.endsWith(',')) return null;
+
+  const frac = parts.frac.padEnd(2, '0').slice(0, 2); // Pad to 2 digits, take first 2
+
+  const pence = Number(parts.whole) * 100 + Number(frac);
   if (!Number.isFinite(pence) || pence < 0) return null;
   return pence;
 }
 
-export function formatPence(pence: number, currencySymbol = '$'): string {
-  const sign = pence < 0 ? '-' : '';
-  const abs = Math.abs(pence);
-  const dollars = Math.floor(abs / 100);
-  const cents = abs % 100;
-  const dollarsStr = dollars.toLocaleString('en-US');
-  return `${sign}${currencySymbol}${dollarsStr}.${String(cents).padStart(2, '0')}`;
+/** Whether an amount reads differently with a decimal point and with a decimal comma, e.g. "1,234". */
+export function isAmbiguousAmount(input: string): boolean {
+  return parseMoneyToPence(input, 'USD') !== parseMoneyToPence(input, 'EUR');
+}
+
+/** Format minor units (cents, pence) in the currency's own locale. */
+export function formatPence(pence: number, currency: CurrencyCode = 'USD'): string {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(CURRENCY_LOCALES[currency], { style: 'currency', currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(pence / 100);
 }
 
+export type CurrencyConversion = { currency: CurrencyCode; rate: number };
 
+/** " (≈ $1,270.00)" to append after an amount that is also reported in another currency; '' without one. */
+export function describeConverted(pence: number, conversion?: CurrencyConversion | null): string {
+  if (!conversion) return '';
+  return ` (≈ ${formatPence(Math.round(pence * conversion.rate), conversion.currency)})`;
+}
@@ -1,30 +1,55 @@
-import { createWorker, type Worker } from 'tesseract.js';
+import { createWorker, PSM, type Worker } from 'tesseract.js';
+import { getEnv } from '../env.js';
 
-let workerPromise: Promise<Worker> | null = null;
+// Multi-pass OCR: each page-segmentation mode gets its own worker so passes never share parameters.
+// PSM 11 = Sparse text (good for tables with gaps) - best for most tables
+// PSM 6 = Uniform block (good for dense tables)
+// PSM 4 = Single column (good for vertical alignment)
+const OCR_PASSES = [
+  { mode: PSM.SPARSE_TEXT, name: 'sparse' },
+  { mode: PSM.SINGLE_BLOCK, name: 'uniform' },
+  { mode: PSM.SINGLE_COLUMN, name: 'single-column' },
+];
 
-async function getWorker(): Promise<Worker> {
+const workerPromises = new Map<PSM, Promise<Worker>>();
+
+/** Thrown when the OCR queue is full; callers should ask the user to try again later. */
+export class OcrBusyError extends Error {
+  constructor(message = 'OCR is busy processing other images. Please try again in a minute.') {
+    super(message);
+    this.name = 'OcrBusyError';
+  }
+}
+
+async function getWorker(psmMode: PSM): Promise<Worker> {
+  let workerPromise = workerPromises.get(psmMode);
   if (!workerPromise) {
     workerPromise = (async () => {
       const worker = await createWorker('eng');
-      // Base settings - will be overridden per pass
+      // Parameters are fixed for the lifetime of this worker
       await worker.setParameters({
-        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz$£., ', // Allow digits, letters, $, £, comma, period, space
+        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz$£€., ', // Allow digits, letters, $, £, €, comma, period, space
         tessedit_ocr_engine_mode: '1', // Neural nets LSTM engine only (best accuracy)
+        tessedit_pageseg_mode: psmMode,
       });
       return worker;
     })();
+    workerPromises.set(psmMode, workerPromise);
+    workerPromise.catch(() => workerPromises.delete(psmMode));
   }
   return workerPromise;
 }
 
-async function recognizeImageWithPSM(buffer: Buffer, psmMode: string): Promise<OcrResult> {
-  const worker = await getWorker();
-  
-  // Set PSM mode for this pass
-  await worker.setParameters({
-    tessedit_pageseg_mode: psmMode,
-  });
-  
+function restartWorker(psmMode: PSM) {
+  const workerPromise = workerPromises.get(psmMode);
+  workerPromises.delete(psmMode);
+  // The next job lazily creates a fresh worker; terminating also aborts any recognize still running on it.
+  workerPromise?.then((w) => w.terminate()).catch(() => {});
+}
+
+async function recognizeImageWithPSM(buffer: Buffer, psmMode: PSM): Promise<OcrResult> {
+  const worker = await getWorker(psmMode);
+
   const { data } = await worker.recognize(buffer, {
     rectangle: undefined,
   });
@@ -62,22 +87,55 @@ export type OcrResult = {
   words: OcrWord[];
 };
 
+// Jobs run one at a time (each already uses one worker per pass); the rest wait in line.
+let pendingJobs = 0;
+let queueTail: Promise<unknown> = Promise.resolve();
+
+function enqueueOcrJob<T>(job: () => Promise<T>): Promise<T> {
+  const env = getEnv();
+  if (pendingJobs >= env.OCR_MAX_QUEUED_JOBS) return Promise.reject(new OcrBusyError());
+  pendingJobs++;
+  const result = queueTail.then(job).finally(() => {
+    pendingJobs--;
+  });
+  queueTail = result.catch(() => {});
+  return result;
+}
+
+async function runPassesWithTimeout(buffer: Buffer): Promise<OcrResult[]> {
+  const timeoutMs = getEnv().OCR_JOB_TIMEOUT_SECONDS * 1000;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`OCR timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+
+  const passes = Promise.allSettled(OCR_PASSES.map((pass) => recognizeImageWithPSM(buffer, pass.mode)));
+  try {
+    const settled = await Promise.race([passes, timeout]);
+    const results: OcrResult[] = [];
+    settled.forEach((outcome, i) => {
+      const pass = OCR_PASSES[i];
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+      } else {
+        console.error(`[OCR] ${pass.name} pass failed, restarting its worker:`, outcome.reason);
+        restartWorker(pass.mode);
+      }
+    });
+    if (results.length === 0) throw new Error('All OCR passes failed');
+    return results;
+  } catch (err) {
+    // A hung or crashed job leaves workers in an unknown state; start clean for the next one.
+    for (const pass of OCR_PASSES) restartWorker(pass.mode);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 export async function recognizeImage(buffer: Buffer): Promise<OcrResult> {
-  // Multi-pass OCR: Try 3 different PSM modes and combine results
-  // PSM 11 = Sparse text (good for tables with gaps) - best for most tables
-  // PSM 6 = Uniform block (good for dense tables)
-  // PSM 4 = Single column (good for vertical alignment)
-  
-  const passes = [
-    { mode: '11', name: 'sparse' },
-    { mode: '6', name: 'uniform' },
-    { mode: '4', name: 'single-column' },
-  ];
-  
-  const allResults = await Promise.all(
-    passes.map(pass => recognizeImageWithPSM(buffer, pass.mode))
-  );
-  
+  const allResults = await enqueueOcrJob(() => runPassesWithTimeout(buffer));
+
   // Combine words from all passes, prioritizing higher confidence
   const wordMap = new Map<string, OcrWord>();
   
@@ -1,11 +1,11 @@
-import { parseMoneyToPence } from './money.js';
+import { parseMoneyToPence, type CurrencyCode } from './money.js';
 import type { OcrWord } from './ocr.js';
 
 type BBox = { x0: number; y0: number; x1: number; y1: number };
 
 function normalizeToken(s: string): string {
   // More lenient normalization - keep more characters that might be in headers
-  return s.trim().toLowerCase().replace(/[^a-z0-9£$.,\s]/g, '');
+  return s.trim().toLowerCase().replace(/[^a-z0-9£$€.,\s]/g, '');
 }
 
 function centerX(b: BBox): number {
@@ -30,16 +30,26 @@ function isLikelyNeededHeader(w: OcrWord): boolean {
     .replace(/5/g, 's');
   if (ocrVariations.includes('need')) return true;
   
-  // Very lenient: if it's 4-7 chars and contains 'n' and 'd', might be "needed"
+  // Misread "needed" (e.g. "nceded", "neded"). A looser letter test matched words such as "funding".
   if (normalized.length >= 4 && normalized.length <= 7) {
-    const hasN = normalized.includes('n');
-    const hasD = normalized.includes('d') || normalized.includes('0'); // 0 might be O
-    if (hasN && hasD) return true;
+    if (editDistance(ocrVariations, 'needed') <= 2 || editDistance(ocrVariations, 'need') <= 1) return true;
   }
   
   return false;
 }
 
+export function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
 function clusterByLine(words: OcrWord[], yTolerance = 15): OcrWord[][] {
   // Increased yTolerance to handle slightly misaligned rows
   const sorted = [...words].sort((a, b) => a.bbox.y0 - b.bbox.y0);
@@ -63,18 +73,281 @@ function clusterByLine(words: OcrWord[], yTolerance = 15): OcrWord[][] {
   return lines;
 }
 
+export type NeededRow = {
+  name: string;
+  neededPence: number | null;
+  confidence: number;
+  // Only present when the table also has Target / Achieved columns
+  targetPence?: number | null;
+  achievedPence?: number | null;
+  // 'mismatch': Needed ≠ Target − Achieved; 'reconstructed': one value was derived from the other two
+  check?: 'ok' | 'mismatch' | 'reconstructed';
+};
+
 export type NeededParseResult = {
   neededPenceValues: number[];
-  rows: { name: string; neededPence: number | null; confidence: number }[];
+  rows: NeededRow[];
   totalPence: number;
   debug: {
     header?: { text: string; bbox: BBox };
     columnX0?: number;
     columnX1?: number;
+    columns?: Partial<Record<ColumnKey, { x0: number; x1: number }>>;
+  };
+};
+
+type ColumnKey = 'target' | 'achieved' | 'needed';
+
+// Allow a cent of rounding difference when checking Needed = Target − Achieved.
+const CROSS_CHECK_TOLERANCE_PENCE = 1;
+
+function isLikelyTargetHeader(w: OcrWord): boolean {
+  const t = normalizeToken(w.text).replace(/\s+/g, '').replace(/0/g, 'o').replace(/1/g, 'i');
+  return t.includes('target') || t.includes('targ') || t === 'goal' || t.includes('quota');
+}
+
+function isLikelyAchievedHeader(w: OcrWord): boolean {
+  const t = normalizeToken(w.text).replace(/\s+/g, '').replace(/0/g, 'o').replace(/1/g, 'i');
+  return t.includes('achiev') || t.includes('raised') || t.includes('actual') || t === 'done' || t.includes('earned');
+}
+
+function pickHeader(candidates: OcrWord[], nearY?: number): OcrWord | undefined {
+  const filtered =
+    nearY === undefined
+      ? candidates
+      : candidates.filter((w) => Math.abs((w.bbox.y0 + w.bbox.y1) / 2 - nearY) <= Math.max(20, w.bbox.y1 - w.bbox.y0));
+  return [...filtered].sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))[0];
+}
+
+function parseColumnValue(words: OcrWord[], parseMoney: MoneyParser): number | null {
+  if (words.length === 0) return null;
+  const joined = parseMoney(words.map((w) => w.text).join(' '));
+  if (joined !== null) return joined;
+  for (let i = words.length - 1; i >= 0; i--) {
+    const v = parseMoney(words[i]?.text ?? '');
+    if (v !== null) return v;
+  }
+  return null;
+}
+
+/** Key used to recognise the same row across passes and uploads: case, spacing and punctuation are ignored. */
+export function normalizeRowName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Check Needed = Target − Achieved when all three are known, or fill in the one that is missing.
+ * 'check' stays undefined when fewer than two values are known.
+ */
+export function reconcileNeededValues(
+  neededPence: number | null,
+  targetPence: number | null,
+  achievedPence: number | null,
+): Pick<NeededRow, 'neededPence' | 'targetPence' | 'achievedPence' | 'check'> {
+  let check: NeededRow['check'];
+  if (neededPence !== null && targetPence !== null && achievedPence !== null) {
+    const expected = Math.max(0, targetPence - achievedPence);
+    check = Math.abs(expected - neededPence) <= CROSS_CHECK_TOLERANCE_PENCE ? 'ok' : 'mismatch';
+  } else if (neededPence === null && targetPence !== null && achievedPence !== null) {
+    neededPence = Math.max(0, targetPence - achievedPence);
+    check = 'reconstructed';
+  } else if (targetPence === null && achievedPence !== null && neededPence !== null) {
+    targetPence = achievedPence + neededPence;
+    check = 'reconstructed';
+  } else if (achievedPence === null && targetPence !== null && neededPence !== null) {
+    achievedPence = Math.max(0, targetPence - neededPence);
+    check = 'reconstructed';
+  }
+  return { neededPence, targetPence, achievedPence, check };
+}
+
+/**
+ * If the table also has Target and/or Achieved columns, read them for every row, check that
+ * Needed = Target − Achieved, flag rows where it doesn't add up and fill in a missing value from the other two.
+ */
+function applyMultiColumnChecks(
+  words: OcrWord[],
+  result: NeededParseResult,
+  resolveName: (name: string) => string,
+  parseMoney: MoneyParser,
+): NeededParseResult {
+  const neededHeader = result.debug.header;
+  const targetCandidates = words.filter((w) => isLikelyTargetHeader(w));
+  const achievedCandidates = words.filter((w) => isLikelyAchievedHeader(w));
+  if (targetCandidates.length === 0 && achievedCandidates.length === 0) return result;
+
+  let headerY: number;
+  if (neededHeader) {
+    headerY = (neededHeader.bbox.y0 + neededHeader.bbox.y1) / 2;
+  } else {
+    // Without a Needed header, Target and Achieved must sit on the same header line.
+    const t = pickHeader(targetCandidates);
+    if (!t) return result;
+    headerY = (t.bbox.y0 + t.bbox.y1) / 2;
+    if (!pickHeader(achievedCandidates, headerY)) return result;
+  }
+
+  const headers: { key: ColumnKey; bbox: BBox }[] = [];
+  const target = pickHeader(targetCandidates, headerY);
+  const achieved = pickHeader(achievedCandidates, headerY);
+  if (target) headers.push({ key: 'target', bbox: target.bbox });
+  if (achieved) headers.push({ key: 'achieved', bbox: achieved.bbox });
+  if (neededHeader) {
+    headers.push({ key: 'needed', bbox: neededHeader.bbox });
+  } else if (result.debug.columnX0 !== undefined && result.debug.columnX1 !== undefined) {
+    const cx = (result.debug.columnX0 + result.debug.columnX1) / 2;
+    headers.push({ key: 'needed', bbox: { x0: cx - 30, y0: headerY, x1: cx + 30, y1: headerY } });
+  }
+  if (headers.length < 2) return result;
+
+  // Column boundaries sit halfway between neighbouring header centres so adjacent columns never overlap.
+  headers.sort((a, b) => centerX(a.bbox) - centerX(b.bbox));
+  const columns = headers.map((h, i) => {
+    const width = Math.max(10, h.bbox.x1 - h.bbox.x0);
+    const prev = headers[i - 1];
+    const next = headers[i + 1];
+    return {
+      key: h.key,
+      x0: prev ? (centerX(prev.bbox) + centerX(h.bbox)) / 2 : h.bbox.x0 - width,
+      x1: next ? (centerX(h.bbox) + centerX(next.bbox)) / 2 : h.bbox.x1 + width * 1.5,
+    };
+  });
+  const nameLimit = columns[0].x0;
+  const minY = Math.max(...headers.map((h) => h.bbox.y1)) + 4;
+
+  type LineValues = { key: string; name: string; confidence: number; values: Partial<Record<ColumnKey, number | null>> };
+  const lineValues = new Map<string, LineValues>();
+  const lines = clusterByLine(words.filter((w) => w.text && w.text.trim() && w.bbox.y0 >= minY), 15);
+  for (const line of lines) {
+    const name = line
+      .filter((w) => centerX(w.bbox) < nameLimit - 3)
+      .map((w) => w.text.trim())
+      .filter(Boolean)
+      .join(' ');
+    if (!name) continue;
+    const key = normalizeRowName(name);
+    if (lineValues.has(key)) continue;
+    const values: Partial<Record<ColumnKey, number | null>> = {};
+    const valueWords: OcrWord[] = [];
+    for (const col of columns) {
+      const colWords = line.filter((w) => centerX(w.bbox) >= col.x0 && centerX(w.bbox) <= col.x1);
+      values[col.key] = parseColumnValue(colWords, parseMoney);
+      valueWords.push(...colWords);
+    }
+    const confidence = valueWords.length
+      ? Math.round((valueWords.reduce((sum, w) => sum + (w.confidence ?? 0), 0) / valueWords.length) * 10) / 10
+      : 0;
+    const entry = { key, name: resolveName(name), confidence, values };
+    lineValues.set(key, entry);
+    // Rows were already aliased, so they must also find their line under the canonical name.
+    const canonicalKey = normalizeRowName(entry.name);
+    if (!lineValues.has(canonicalKey)) lineValues.set(canonicalKey, entry);
+  }
+
+  // The Needed-column parser treats everything left of Needed as the name, so Target/Achieved
+  // amounts end up appended to it; match on the longest line name the row name starts with.
+  const findLine = (rowName: string) => {
+    const key = normalizeRowName(rowName);
+    const exact = lineValues.get(key);
+    if (exact) return exact;
+    let best: LineValues | null = null;
+    for (const [k, v] of lineValues) {
+      if (key.startsWith(k) && (!best || k.length > best.key.length)) best = v;
+    }
+    return best;
+  };
+
+  const mapped: NeededRow[] = result.rows.map((row) => {
+    const line = findLine(row.name);
+    if (!line) return row;
+    const values = line.values;
+
+    const needed = row.neededPence ?? values.needed ?? null;
+    const reconciled = reconcileNeededValues(needed, values.target ?? null, values.achieved ?? null);
+    // A Needed value worked out from the other columns is only as good as the line they were read from.
+    const confidence = needed === null && reconciled.neededPence !== null ? line.confidence : row.confidence;
+
+    return { name: line.name, confidence, ...reconciled };
+  });
+  // Rows only share a name here when aliases point them at the same canonical row; keep the first reading.
+  const seenNames = new Set<string>();
+  const rows = mapped.filter((r) => {
+    const key = normalizeRowName(r.name);
+    if (seenNames.has(key)) return false;
+    seenNames.add(key);
+    return true;
+  });
+
+  const mismatches = rows.filter((r) => r.check === 'mismatch').length;
+  const reconstructed = rows.filter((r) => r.check === 'reconstructed').length;
+  console.log('[Parse] Multi-column check:', {
+    columns: columns.map((c) => c.key),
+    mismatches,
+    reconstructed,
+  });
+
+  const neededPenceValues = rows.filter((r) => r.neededPence !== null).map((r) => r.neededPence!);
+  return {
+    neededPenceValues,
+    rows,
+    totalPence: neededPenceValues.reduce((sum, v) => sum + v, 0),
+    debug: {
+      ...result.debug,
+      columns: Object.fromEntries(columns.map((c) => [c.key, { x0: c.x0, x1: c.x1 }])),
+    },
   };
+}
+
+export type NeededParseOptions = {
+  // normalizeRowName(variant) -> canonical row name, applied before rows are merged and totalled
+  aliases?: Map<string, string>;
+  // The tracker's currency, for amounts like "1.234" whose separator could be decimal or thousands
+  currency?: CurrencyCode;
 };
 
-export function extractNeededValuesFromWords(words: OcrWord[]): NeededParseResult {
+type MoneyParser = (text: string) => number | null;
+
+/**
+ * The OCR passes can each report the same word with slightly different boxes, and after upscaling
+ * those copies survive the merge. Keep one per text and overlapping box, the most confident.
+ */
+function dropDuplicateWords(words: OcrWord[]): OcrWord[] {
+  const area = (b: BBox) => Math.max(0, b.x1 - b.x0) * Math.max(0, b.y1 - b.y0);
+  const kept: OcrWord[] = [];
+  for (const word of [...words].sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))) {
+    const duplicate = kept.some((k) => {
+      if (k.text.trim().toLowerCase() !== word.text.trim().toLowerCase()) return false;
+      const overlapX = Math.min(k.bbox.x1, word.bbox.x1) - Math.max(k.bbox.x0, word.bbox.x0);
+      const overlapY = Math.min(k.bbox.y1, word.bbox.y1) - Math.max(k.bbox.y0, word.bbox.y0);
+      if (overlapX <= 0 || overlapY <= 0) return false;
+      return overlapX * overlapY >= 0.5 * Math.min(area(k.bbox), area(word.bbox));
+    });
+    if (!duplicate) kept.push(word);
+  }
+  return kept;
+}
+
+export function extractNeededValuesFromWords(words: OcrWord[], options: NeededParseOptions = {}): NeededParseResult {
+  const aliases = options.aliases ?? new Map<string, string>();
+  const resolveName = (name: string) => aliases.get(normalizeRowName(name)) ?? name;
+  const parseMoney: MoneyParser = (text) => parseMoneyToPence(text, options.currency);
+  const uniqueWords = dropDuplicateWords(words);
+  return applyMultiColumnChecks(
+    uniqueWords,
+    extractNeededColumn(uniqueWords, resolveName, parseMoney),
+    resolveName,
+    parseMoney,
+  );
+}
+
+function extractNeededColumn(
+  words: OcrWord[],
+  resolveName: (name: string) => string,
+  parseMoney: MoneyParser,
+): NeededParseResult {
   // Multi-pass parsing: Try multiple strategies and combine results
   
   console.log('[Parse] Total words from OCR:', words.length);
@@ -90,7 +363,7 @@ export function extractNeededValuesFromWords(words: OcrWord[]): NeededParseResul
     // Fallback: if we can't find the "Needed" header, infer the needed column by locating
     // the densest vertical cluster of money-like tokens (right-side amounts column).
     const moneyWords = words
-      .map((w) => ({ w, p: parseMoneyToPence(w.text) }))
+      .map((w) => ({ w, p: parseMoney(w.text) }))
       .filter((x) => x.p !== null);
 
     console.log('[Parse] Fallback: Found', moneyWords.length, 'money words');
@@ -123,11 +396,16 @@ export function extractNeededValuesFromWords(words: OcrWord[]): NeededParseResul
     const colX0 = medianCx - 120;
     const colX1 = medianCx + 120;
 
-    const allLines = clusterByLine(words.filter((w) => w.text && w.text.trim()), 15);
+    // Without a header the table starts at the first amount in the column; anything above it is a title.
+    const columnTop = Math.min(
+      ...moneyWords.filter(({ w }) => centerX(w.bbox) >= colX0 && centerX(w.bbox) <= colX1).map(({ w }) => w.bbox.y0),
+    );
+    const allLines = clusterByLine(words.filter((w) => w.text && w.text.trim() && w.bbox.y1 >= columnTop), 15);
     const allRows: { name: string; neededPence: number | null; confidence: number }[] = parseRowsFromLines(
       allLines,
       colX0,
       colX1,
+      parseMoney,
     );
 
     // De-dupe by (name, needed)
@@ -175,7 +453,7 @@ export function extractNeededValuesFromWords(words: OcrWord[]): NeededParseResul
   // Pass 1: Try with different clustering tolerances
   for (const strategy of clusteringStrategies) {
     const allLines = clusterByLine(belowHeader, strategy.tolerance);
-    const rows = parseRowsFromLines(allLines, colX0, colX1);
+    const rows = parseRowsFromLines(allLines, colX0, colX1, parseMoney);
     allRows.push(...rows);
   }
   
@@ -183,14 +461,14 @@ export function extractNeededValuesFromWords(words: OcrWord[]): NeededParseResul
   const widerColX0 = colX0 - 20;
   const widerColX1 = colX1 + 20;
   const allLinesWide = clusterByLine(belowHeader, 15);
-  const rowsWide = parseRowsFromLines(allLinesWide, widerColX0, widerColX1);
+  const rowsWide = parseRowsFromLines(allLinesWide, widerColX0, widerColX1, parseMoney);
   allRows.push(...rowsWide);
   
   // Pass 3: Try with tighter column detection
   const tighterColX0 = colX0 + 10;
   const tighterColX1 = colX1 - 10;
   const allLinesTight = clusterByLine(belowHeader, 12);
-  const rowsTight = parseRowsFromLines(allLinesTight, tighterColX0, tighterColX1);
+  const rowsTight = parseRowsFromLines(allLinesTight, tighterColX0, tighterColX1, parseMoney);
   allRows.push(...rowsTight);
   
   // Combine and deduplicate all rows from multiple passes
@@ -199,7 +477,8 @@ export function extractNeededValuesFromWords(words: OcrWord[]): NeededParseResul
 function parseRowsFromLines(
   allLines: OcrWord[][],
   colX0: number,
-  colX1: number
+  colX1: number,
+  parseMoney: MoneyParser,
 ): { name: string; neededPence: number | null; confidence: number }[] {
   const rows: { name: string; neededPence: number | null; confidence: number }[] = [];
   
@@ -234,12 +513,12 @@ function parseRowsFromLines(
     if (allNeededWords.length > 0) {
       // Strategy 1: Join all words in the column
       const neededJoined = allNeededWords.map((w) => w.text).join(' ');
-      neededPence = parseMoneyToPence(neededJoined);
+      neededPence = parseMoney(neededJoined);
       
       // Strategy 2: Try each word individually (right-to-left)
       if (neededPence === null) {
         for (let i = allNeededWords.length - 1; i >= 0; i--) {
-          const v = parseMoneyToPence(allNeededWords[i]?.text ?? '');
+          const v = parseMoney(allNeededWords[i]?.text ?? '');
           if (v !== null) {
             neededPence = v;
             break;
@@ -250,20 +529,20 @@ function parseRowsFromLines(
       // Strategy 3: Try joining just the last few words
       if (neededPence === null && allNeededWords.length >= 2) {
         const lastTwo = allNeededWords.slice(-2).map((w) => w.text).join(' ');
-        neededPence = parseMoneyToPence(lastTwo);
+        neededPence = parseMoney(lastTwo);
       }
       
       // Strategy 4: Try first few words
       if (neededPence === null && allNeededWords.length >= 2) {
         const firstTwo = allNeededWords.slice(0, 2).map((w) => w.text).join(' ');
-        neededPence = parseMoneyToPence(firstTwo);
+        neededPence = parseMoney(firstTwo);
       }
     }
     
     // Strategy 5: Check the entire line for any money value
     if (neededPence === null) {
       const wholeLine = line.map((w) => w.text).join(' ');
-      neededPence = parseMoneyToPence(wholeLine);
+      neededPence = parseMoney(wholeLine);
     }
 
     // Calculate confidence
@@ -274,7 +553,7 @@ function parseRowsFromLines(
         ) / 10
       : 0;
 
-    rows.push({ name, neededPence, confidence });
+    rows.push({ name: resolveName(name), neededPence, confidence });
   }
   
   return rows;
@@ -313,10 +592,12 @@ function parseRowsFromLines(
       if (k === key) return true;
       const name1 = row.name.toLowerCase().trim();
       const name2 = r.name.toLowerCase().trim();
-      // Check if names are similar (one contains the other or very close)
-      const similarity = name1.length > 0 && name2.length > 0 && 
-        (name1.includes(name2) || name2.includes(name1) || 
-         Math.abs(name1.length - name2.length) <= 2);
+      // Check if names are similar: one contains the other (a pass clipped or added a word),
+      // or a single-character OCR slip. Different chatters with similar-length names must stay apart.
+      const shorter = Math.min(name1.length, name2.length);
+      const similarity = shorter > 0 &&
+        ((shorter >= 3 && (name1.includes(name2) || name2.includes(name1))) ||
+         (shorter >= 4 && editDistance(name1, name2) <= 1));
       return similarity && (r.neededPence === row.neededPence || 
                            (r.neededPence !== null && row.neededPence !== null));
     });
@@ -0,0 +1,28 @@
+import { getEnv } from '../env.js';
+import { recognizeImage, type OcrResult } from './ocr.js';
+import { mapWordsToOriginal, parsePreprocessStages, preprocessImage, type PreprocessResult } from './preprocess.js';
+
+/**
+ * Screenshot bytes -> OCR words in original-image coordinates, exactly as the funding channel handler sees them.
+ * Shared with the fixture capture CLI so captured words match what the parser gets in production.
+ */
+export async function recognizeFundingImage(
+  buffer: Buffer,
+): Promise<{ ocr: OcrResult; preprocessed: PreprocessResult | null }> {
+  const env = getEnv();
+
+  let preprocessed: PreprocessResult | null = null;
+  const stages = parsePreprocessStages(env.OCR_PREPROCESS_STAGES);
+  if (stages.length > 0) {
+    try {
+      preprocessed = await preprocessImage(buffer, { stages, upscaleMinWidth: env.OCR_UPSCALE_MIN_WIDTH });
+    } catch (error) {
+      // Unsupported formats (e.g. animated GIF/WebP) still get a raw OCR attempt.
+      console.error('[OCR] Preprocessing failed, using the original image:', error);
+    }
+  }
+
+  const ocr = await recognizeImage(preprocessed?.buffer ?? buffer);
+  const words = preprocessed ? mapWordsToOriginal(ocr.words, preprocessed) : ocr.words;
+  return { ocr: { ...ocr, words }, preprocessed };
+}
@@ -0,0 +1,174 @@
+import { Jimp } from 'jimp';
+import type { OcrWord } from './ocr.js';
+
+export type PreprocessStage = 'grayscale' | 'invert' | 'upscale' | 'threshold' | 'crop';
+
+export const ALL_PREPROCESS_STAGES: PreprocessStage[] = ['grayscale', 'invert', 'upscale', 'threshold', 'crop'];
+
+export type PreprocessOptions = {
+  stages: PreprocessStage[];
+  upscaleMinWidth: number; // images narrower than this are scaled up (max 3x)
+};
+
+export type PreprocessResult = {
+  buffer: Buffer; // PNG fed to Tesseract
+  applied: string[]; // stages that actually changed the image, for debugging
+  // Mapping from processed-image pixels back to the original screenshot
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+};
+
+const DARK_MODE_MEAN_LUMINANCE = 110;
+const MAX_UPSCALE = 3;
+const THRESHOLD_SENSITIVITY = 0.15; // pixel is ink if it is 15% darker than its neighbourhood
+const CROP_PADDING = 12;
+
+export function parsePreprocessStages(input: string): PreprocessStage[] {
+  return input
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is PreprocessStage => (ALL_PREPROCESS_STAGES as string[]).includes(s));
+}
+
+function meanLuminance(data: Buffer | Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += data[i];
+  return sum / (data.length / 4);
+}
+
+/**
+ * Bradley–Roth adaptive threshold on a greyscale RGBA bitmap, using an integral image
+ * so the cost is independent of the window size.
+ */
+function adaptiveThreshold(data: Buffer | Uint8Array, width: number, height: number) {
+  const window = Math.max(15, Math.floor(width / 8));
+  const half = Math.floor(window / 2);
+  const integral = new Float64Array((width + 1) * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * 4];
+      integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width - 1, x + half);
+      const count = (x1 - x0 + 1) * (y1 - y0 + 1);
+      const sum =
+        integral[(y1 + 1) * (width + 1) + (x1 + 1)] -
+        integral[y0 * (width + 1) + (x1 + 1)] -
+        integral[(y1 + 1) * (width + 1) + x0] +
+        integral[y0 * (width + 1) + x0];
+      const idx = (y * width + x) * 4;
+      const value = data[idx] * count < sum * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+      data[idx] = data[idx + 1] = data[idx + 2] = value;
+    }
+  }
+}
+
+/** Bounding box of rows/columns that contain a meaningful amount of dark (text) pixels. */
+function findContentBox(data: Buffer | Uint8Array, width: number, height: number) {
+  const rowInk = new Uint32Array(height);
+  const colInk = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] < 128) {
+        rowInk[y]++;
+        colInk[x]++;
+      }
+    }
+  }
+  // Ignore stray specks: a row/column counts once it has a few ink pixels.
+  const minRowInk = Math.max(2, Math.floor(width * 0.005));
+  const minColInk = Math.max(2, Math.floor(height * 0.005));
+  const top = rowInk.findIndex((c) => c >= minRowInk);
+  const left = colInk.findIndex((c) => c >= minColInk);
+  if (top < 0 || left < 0) return null;
+  let bottom = height - 1;
+  while (bottom > top && rowInk[bottom] < minRowInk) bottom--;
+  let right = width - 1;
+  while (right > left && colInk[right] < minColInk) right--;
+
+  const x = Math.max(0, left - CROP_PADDING);
+  const y = Math.max(0, top - CROP_PADDING);
+  return {
+    x,
+    y,
+    w: Math.min(width, right + CROP_PADDING + 1) - x,
+    h: Math.min(height, bottom + CROP_PADDING + 1) - y,
+  };
+}
+
+export async function preprocessImage(buffer: Buffer, options: PreprocessOptions): Promise<PreprocessResult> {
+  const stages = new Set(options.stages);
+  const image = await Jimp.read(buffer);
+  const applied: string[] = [];
+  let scale = 1;
+  let offsetX = 0;
+  let offsetY = 0;
+
+  // Inversion and thresholding work on luminance, so they imply greyscale.
+  if (stages.has('grayscale') || stages.has('invert') || stages.has('threshold')) {
+    image.greyscale();
+    applied.push('grayscale');
+  }
+
+  if (stages.has('invert') && meanLuminance(image.bitmap.data) < DARK_MODE_MEAN_LUMINANCE) {
+    image.invert();
+    applied.push('invert (dark mode)');
+  }
+
+  if (stages.has('upscale') && image.bitmap.width < options.upscaleMinWidth) {
+    const originalWidth = image.bitmap.width;
+    const factor = Math.min(MAX_UPSCALE, options.upscaleMinWidth / originalWidth);
+    image.resize({ w: Math.round(originalWidth * factor) });
+    scale = image.bitmap.width / originalWidth; // exact ratio after rounding
+    applied.push(`upscale x${scale.toFixed(2)}`);
+  }
+
+  if (stages.has('threshold')) {
+    adaptiveThreshold(image.bitmap.data, image.bitmap.width, image.bitmap.height);
+    applied.push('threshold');
+  }
+
+  if (stages.has('crop')) {
+    const box = findContentBox(image.bitmap.data, image.bitmap.width, image.bitmap.height);
+    const area = image.bitmap.width * image.bitmap.height;
+    // Only crop when it removes a noticeable margin; tiny crops are not worth shifting coordinates for.
+    if (box && box.w * box.h < area * 0.95) {
+      image.crop(box);
+      offsetX = box.x;
+      offsetY = box.y;
+      applied.push(`crop ${box.w}x${box.h}`);
+    }
+  }
+
+  return {
+    buffer: await image.getBuffer('image/png'),
+    applied,
+    scale,
+    offsetX,
+    offsetY,
+  };
+}
+
+/**
+ * Map OCR word boxes from the processed image back to original screenshot pixels.
+ * The parser's tolerances (line clustering, column padding) are tuned for original-size screenshots.
+ */
+export function mapWordsToOriginal(words: OcrWord[], result: PreprocessResult): OcrWord[] {
+  if (result.scale === 1 && result.offsetX === 0 && result.offsetY === 0) return words;
+  const toX = (x: number) => (x + result.offsetX) / result.scale;
+  const toY = (y: number) => (y + result.offsetY) / result.scale;
+  return words.map((w) => ({
+    ...w,
+    bbox: { x0: toX(w.bbox.x0), y0: toY(w.bbox.y0), x1: toX(w.bbox.x1), y1: toY(w.bbox.y1) },
+  }));
+}
@@ -0,0 +1,76 @@
+import { formatPence, type CurrencyCode } from './money.js';
+import type { NeededRow } from './parseNeeded.js';
+
+function truncateUtf8(input: string, maxBytes: number): string {
+  // Discord embed field value limit is 1024; depending on server internals it can behave like a byte limit.
+  // Enforce by UTF-8 bytes to be safe with punctuation/emoji.
+  if (!input) return input;
+  if (Buffer.byteLength(input, 'utf8') <= maxBytes) return input;
+  let out = input;
+  const ellipsis = '…';
+  // Trim until it fits with an ellipsis suffix.
+  while (out.length > 0 && Buffer.byteLength(out + ellipsis, 'utf8') > maxBytes) {
+    out = out.slice(0, -1);
+  }
+  return out.length > 0 ? out + ellipsis : ellipsis;
+}
+
+export function sanitizeEmbedText(input: string, maxBytes = 1000): string {
+  return truncateUtf8(input ?? '', maxBytes);
+}
+
+export function sanitizeEmbedFields(fields: { name: string; value: string; inline?: boolean }[], maxBytes = 1000) {
+  for (const f of fields) {
+    // names have their own limits but ours are already short; still sanitize values hard.
+    if (typeof f.value === 'string') f.value = sanitizeEmbedText(f.value, maxBytes);
+  }
+}
+
+export function renderRowsForEmbed(
+  rows: NeededRow[],
+  currency: CurrencyCode,
+  maxLines = 999, // Show all rows by default (Discord embed limit is 1024 chars per field)
+): { text: string; flaggedCount: number } {
+  // Sort: rows with values first (by value desc), then rows without values
+  const sorted = [...rows].sort((a, b) => {
+    if (a.neededPence === null && b.neededPence === null) return 0;
+    if (a.neededPence === null) return 1;
+    if (b.neededPence === null) return -1;
+    return b.neededPence - a.neededPence;
+  });
+  let flaggedCount = 0;
+
+  const lines: string[] = [];
+  // Discord's field value limit is 1024; enforce by bytes to avoid unicode surprises.
+  const MAX_FIELD_BYTES = 900; // leave buffer for truncation marker
+  let currentBytes = 0;
+  
+  for (const r of sorted) {
+    const lowConf = r.confidence < 60 || r.check === 'mismatch';
+    if (lowConf) flaggedCount++;
+    const flag = lowConf ? '⚠️' : r.check === 'reconstructed' ? '🔧' : '';
+    // Make names even shorter (12 chars max)
+    const name = r.name.length > 12 ? r.name.slice(0, 11) + '…' : r.name;
+    const valueStr = r.neededPence === null ? '—' : formatPence(r.neededPence, currency);
+    // Ultra compact format: flag name value (no confidence shown to save space)
+    const line = `${flag} **${name}** ${valueStr}`;
+    
+    // Check if adding this line would exceed the limit
+    const lineWithNewline = line + '\n';
+    const lineBytes = Buffer.byteLength(lineWithNewline, 'utf8');
+    if (currentBytes + lineBytes > MAX_FIELD_BYTES && lines.length > 0) {
+      const remaining = Math.max(0, sorted.length - lines.length);
+      const truncMsg = remaining > 0 ? `\n…${remaining} more` : `\n…`;
+      const truncBytes = Buffer.byteLength(truncMsg, 'utf8');
+      if (currentBytes + truncBytes <= 1000) lines.push(truncMsg);
+      break;
+    }
+    
+    lines.push(line);
+    currentBytes += lineBytes;
+  }
+  
+  const result = lines.join('\n');
+  // Hard limit: never exceed 1000 bytes (well under 1024)
+  return { text: sanitizeEmbedText(result, 1000), flaggedCount };
+}
@@ -0,0 +1,226 @@
+import { randomUUID } from 'node:crypto';
+import type { ButtonInteraction } from 'discord.js';
+import { formatPence, parseMoneyToPence, type CurrencyCode } from './money.js';
+import type { NeededParseResult } from './parseNeeded.js';
+import { sanitizeEmbedText } from './render.js';
+
+type FundingRow = NeededParseResult['rows'][number];
+
+// Same threshold renderRowsForEmbed uses for the ⚠️ flag.
+const LOW_CONFIDENCE = 60;
+const REVIEW_TTL_MS = 2 * 60 * 60 * 1000;
+// 5 action rows of 5 buttons; the last row is reserved for Confirm / Discard.
+const MAX_EDIT_BUTTONS = 20;
+
+export type PendingFundingUpload = {
+  guildId: string;
+  trackerId: string;
+  userId: string;
+  messageId: string | null;
+  imageUrl: string;
+  imageHash: string | null;
+  ocrText: string | null;
+  rows: FundingRow[];
+};
+
+type FundingReview = {
+  id: string;
+  upload: PendingFundingUpload;
+  suspectIndexes: number[];
+  // Upload-level problems (duplicate screenshot, total jumped up) that staff must confirm.
+  warnings: string[];
+  editedIndexes: Set<number>;
+  createdAt: number;
+};
+
+// Pending reviews live in memory only; a restart simply means the screenshot has to be re-posted.
+const reviews = new Map<string, FundingReview>();
+
+function pruneExpiredReviews() {
+  const now = Date.now();
+  for (const [id, review] of reviews) {
+    if (now - review.createdAt > REVIEW_TTL_MS) reviews.delete(id);
+  }
+}
+
+export function getSuspectRowIndexes(rows: FundingRow[]): number[] {
+  const indexes: number[] = [];
+  rows.forEach((r, i) => {
+    if (r.neededPence === null || r.confidence < LOW_CONFIDENCE || r.check === 'mismatch') indexes.push(i);
+  });
+  return indexes;
+}
+
+export function createFundingReview(upload: PendingFundingUpload, warnings: string[] = []): FundingReview {
+  pruneExpiredReviews();
+  const review: FundingReview = {
+    id: randomUUID().slice(0, 8),
+    upload: { ...upload, rows: upload.rows.map((r) => ({ ...r })) },
+    suspectIndexes: getSuspectRowIndexes(upload.rows),
+    warnings,
+    editedIndexes: new Set(),
+    createdAt: Date.now(),
+  };
+  reviews.set(review.id, review);
+  return review;
+}
+
+export function getFundingReview(id: string): FundingReview | null {
+  pruneExpiredReviews();
+  return reviews.get(id) ?? null;
+}
+
+/** Remove a review and return its (possibly corrected) upload. Rows with an empty name are dropped. */
+export function takeFundingReview(id: string): PendingFundingUpload | null {
+  const review = getFundingReview(id);
+  if (!review) return null;
+  reviews.delete(id);
+  return { ...review.upload, rows: review.upload.rows.filter((r) => r.name.trim().length > 0) };
+}
+
+/** Put a review taken with takeFundingReview back, e.g. when saving it failed. */
+export function restoreFundingReview(review: FundingReview) {
+  reviews.set(review.id, review);
+}
+
+export function buildFundingReviewMessage(review: FundingReview, currency: CurrencyCode = 'USD') {
+  const rows = review.upload.rows;
+  const suspect = new Set(review.suspectIndexes);
+  const lines = rows.map((r, i) => {
+    const value = r.neededPence === null ? '—' : formatPence(r.neededPence, currency);
+    const removed = r.name.trim().length === 0;
+    const marker = review.editedIndexes.has(i) ? '✏️' : suspect.has(i) ? '⚠️' : '✅';
+    // Show the table's own arithmetic so staff can tell which cell OCR misread.
+    const hint =
+      r.check === 'mismatch' && r.targetPence != null && r.achievedPence != null
+        ? ` (target ${formatPence(r.targetPence, currency)} − achieved ${formatPence(r.achievedPence, currency)} = ${formatPence(Math.max(0, r.targetPence - r.achievedPence), currency)})`
+        : '';
+    return removed ? `${marker} ~~row ${i + 1}~~ (removed)` : `${marker} \`${i + 1}\` **${r.name}** ${value}${hint}`;
+  });
+  const totalPence = rows
+    .filter((r) => r.name.trim().length > 0 && r.neededPence !== null)
+    .reduce((sum, r) => sum + (r.neededPence ?? 0), 0);
+
+  const editable = review.suspectIndexes.slice(0, MAX_EDIT_BUTTONS);
+  const editButtons = editable.map((index) => {
+    const name = rows[index]?.name || `row ${index + 1}`;
+    return {
+      type: 2,
+      style: review.editedIndexes.has(index) ? 3 : 2, // Success once edited, otherwise Secondary
+      custom_id: `funding_review_edit_${review.id}_${index}`,
+      label: `Edit ${index + 1}. ${name.length > 20 ? name.slice(0, 19) + '…' : name}`,
+    };
+  });
+  const components: any[] = [];
+  for (let i = 0; i < editButtons.length; i += 5) {
+    components.push({ type: 1, components: editButtons.slice(i, i + 5) });
+  }
+  components.push({
+    type: 1,
+    components: [
+      { type: 2, style: 3, custom_id: `funding_review_confirm_${review.id}`, label: 'Confirm' },
+      { type: 2, style: 4, custom_id: `funding_review_discard_${review.id}`, label: 'Discard' },
+    ],
+  });
+
+  const hiddenCount = review.suspectIndexes.length - editable.length;
+  const fields = [
+    { name: 'Total (current values)', value: `**${formatPence(totalPence, currency)}**`, inline: true },
+    { name: 'Rows to check', value: `${review.suspectIndexes.length}`, inline: true },
+  ];
+  if (review.warnings.length > 0) {
+    fields.unshift({
+      name: '⚠️ Confirm before replacing the current targets',
+      value: sanitizeEmbedText(review.warnings.join('\n')),
+      inline: false,
+    });
+  }
+  return {
+    content:
+      review.warnings.length > 0
+        ? `<@${review.upload.userId}> this upload needs a staff member or funding uploader to confirm it before the targets are updated.`
+        : `<@${review.upload.userId}> some rows in this table need checking before the targets are updated.`,
+    embeds: [
+      {
+        title: '🔍 Review Funding Table',
+        description: sanitizeEmbedText(lines.join('\n'), 4000),
+        fields,
+        color: 0xf59e0b,
+        footer: {
+          text:
+            '⚠️ low confidence, missing amount or Needed ≠ Target − Achieved • clear a name to drop the row' +
+            (hiddenCount > 0 ? ` • ${hiddenCount} more row(s) not editable here` : ''),
+        },
+      },
+    ],
+    components,
+  };
+}
+
+export async function showFundingReviewEditModal(interaction: ButtonInteraction, reviewId: string, index: number) {
+  const review = getFundingReview(reviewId);
+  const row = review?.upload.rows[index];
+  if (!review || !row) return false;
+
+  await interaction.showModal({
+    custom_id: `funding_review_modal_${review.id}_${index}`,
+    title: `Correct row ${index + 1}`,
+    components: [
+      {
+        type: 1,
+        components: [
+          {
+            type: 4, // Text input
+            custom_id: 'name',
+            label: 'Name (leave empty to drop the row)',
+            style: 1,
+            value: row.name.slice(0, 100),
+            required: false,
+            max_length: 100,
+          },
+        ],
+      },
+      {
+        type: 1,
+        components: [
+          {
+            type: 4,
+            custom_id: 'amount',
+            label: 'Needed amount (e.g. 1234.56)',
+            style: 1,
+            value: row.neededPence === null ? '' : (row.neededPence / 100).toFixed(2),
+            required: false,
+            max_length: 20,
+          },
+        ],
+      },
+    ],
+  });
+  return true;
+}
+
+/** Apply a modal correction. Returns an error message, or null when the row was updated. */
+export function applyFundingReviewEdit(
+  reviewId: string,
+  index: number,
+  name: string,
+  amount: string,
+  currency: CurrencyCode = 'USD',
+): string | null {
+  const review = getFundingReview(reviewId);
+  const row = review?.upload.rows[index];
+  if (!review || !row) return 'This review has expired. Please re-upload the screenshot.';
+
+  let neededPence: number | null = null;
+  if (amount.trim()) {
+    neededPence = parseMoneyToPence(amount, currency);
+    if (neededPence === null) return `Could not read "${amount}" as an amount.`;
+  }
+
+  row.name = name.trim().replace(/\s+/g, ' ');
+  row.neededPence = neededPence;
+  row.confidence = 100; // manually verified
+  row.check = undefined;
+  review.editedIndexes.add(index);
+  return null;
+}
@@ -0,0 +1,33 @@
+import type { Client } from 'discord.js';
+import { PermissionFlagsBits } from 'discord.js';
+import type { FundingTracker } from './trackers.js';
+
+/**
+ * Shifts are stored per user without a guild, so a query for open or overlapping shifts returns
+ * chatters from every server the bot is in. Keep the ones whose user can see the tracker's
+ * channel, which also tells apart two trackers in the same server. Never throws.
+ */
+export async function filterShiftsForTracker<T extends { userId: string }>(
+  client: Client,
+  tracker: FundingTracker,
+  shifts: T[],
+): Promise<T[]> {
+  const userIds = [...new Set(shifts.map((s) => s.userId))];
+  if (userIds.length === 0) return [];
+
+  try {
+    const channel = await client.channels.fetch(tracker.channelId).catch(() => null);
+    if (!channel || channel.isDMBased()) return [];
+    const members = await channel.guild.members.fetch({ user: userIds }).catch((error) => {
+      console.error(`[Funding] Could not fetch members for ${tracker.name}, using the member cache:`, error);
+      return channel.guild.members.cache;
+    });
+    return shifts.filter((shift) => {
+      const member = members.get(shift.userId);
+      return member !== undefined && channel.permissionsFor(member).has(PermissionFlagsBits.ViewChannel);
+    });
+  } catch (error) {
+    console.error(`[Funding] Failed to match shifts to ${tracker.name}:`, error);
+    return [];
+  }
+}
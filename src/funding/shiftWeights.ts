@@ -0,0 +1,232 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { fundingShiftWeights, fundingUpdatesHistory } from '../db/index.js';
+import { getShiftConfig } from '../shiftConfig.js';
+import { resolveTrackerForInteraction } from './trackers.js';
+import { getShiftEndsAt, getUkShiftInfo, type ShiftConfig, type ShiftName } from './ukTime.js';
+
+// Shifts missing from a weights map count as an average shift (1).
+export type ShiftWeights = Record<ShiftName, number>;
+
+export type ShiftTarget = { shift: ShiftName; weight: number; pence: number };
+
+export type ShiftWeightSummary = {
+  learned: ShiftWeights | null; // null until there is enough upload history
+  overrides: ShiftWeights;
+  effective: ShiftWeights;
+  intervals: number; // upload-to-upload drops the learned weights are based on
+};
+
+const HISTORY_UPLOADS = 200;
+const HISTORY_DAYS = 28;
+// A drop between uploads more than a day apart says little about which shift earned it.
+const MAX_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MIN_INTERVALS = 5;
+const MIN_OBSERVED_HOURS = 8;
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+function evenWeights(config: ShiftConfig): ShiftWeights {
+  return Object.fromEntries(config.shifts.map((s) => [s.name, 1]));
+}
+
+const cache = new Map<string, { summary: ShiftWeightSummary; expiresAt: number }>();
+
+/** Split an interval into the time spent in each shift window. */
+function shiftOverlapMs(start: Date, end: Date, config: ShiftConfig): ShiftWeights {
+  const overlap: ShiftWeights = Object.fromEntries(config.shifts.map((s) => [s.name, 0]));
+  let cursor = start;
+  while (cursor < end) {
+    const shiftEnd = getShiftEndsAt(cursor, config);
+    const segmentEnd = shiftEnd < end ? shiftEnd : end;
+    overlap[getUkShiftInfo(cursor, config).currentShift] += segmentEnd.getTime() - cursor.getTime();
+    cursor = segmentEnd;
+  }
+  return overlap;
+}
+
+/**
+ * Learn how much each shift brings the table total down, per hour on shift.
+ * Every drop between two consecutive uploads is shared across the shifts the gap covered, in
+ * proportion to time. Rises (new period, corrections) and long gaps are skipped.
+ * Weights are scaled so the average shift is 1.
+ */
+export function learnShiftWeights(
+  uploads: { calculatedAt: string; parsedTotalPence: number }[],
+  config: ShiftConfig,
+): { weights: ShiftWeights | null; intervals: number } {
+  const names = config.shifts.map((s) => s.name);
+  const sorted = [...uploads].sort((a, b) => a.calculatedAt.localeCompare(b.calculatedAt));
+  const dropPence: ShiftWeights = Object.fromEntries(names.map((n) => [n, 0]));
+  const observedMs: ShiftWeights = Object.fromEntries(names.map((n) => [n, 0]));
+  let intervals = 0;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const start = new Date(sorted[i - 1].calculatedAt);
+    const end = new Date(sorted[i].calculatedAt);
+    const durationMs = end.getTime() - start.getTime();
+    const drop = sorted[i - 1].parsedTotalPence - sorted[i].parsedTotalPence;
+    if (durationMs <= 0 || durationMs > MAX_INTERVAL_MS || drop < 0) continue;
+
+    const overlap = shiftOverlapMs(start, end, config);
+    for (const shift of names) {
+      dropPence[shift] += (drop * overlap[shift]) / durationMs;
+      observedMs[shift] += overlap[shift];
+    }
+    intervals++;
+  }
+
+  const hour = 60 * 60 * 1000;
+  if (intervals < MIN_INTERVALS || names.some((s) => observedMs[s] < MIN_OBSERVED_HOURS * hour)) {
+    return { weights: null, intervals };
+  }
+  const rates = names.map((s) => dropPence[s] / (observedMs[s] / hour));
+  const mean = rates.reduce((sum, r) => sum + r, 0) / rates.length;
+  if (mean <= 0) return { weights: null, intervals };
+  const weights = evenWeights(config);
+  names.forEach((s, i) => (weights[s] = Math.round((rates[i] / mean) * 100) / 100));
+  return { weights, intervals };
+}
+
+/**
+ * Weights learned from one tracker's uploads, with the guild's staff overrides applied.
+ * Cached briefly; falls back to an even split on errors.
+ */
+export async function getShiftWeights(guildId: string, trackerId: string): Promise<ShiftWeightSummary> {
+  const config = await getShiftConfig(guildId);
+  // Learned weights depend on the shift windows, so a config change starts a fresh entry.
+  const cacheKey = `${guildId}|${trackerId}|${JSON.stringify(config)}`;
+  const cached = cache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.summary;
+
+  let summary: ShiftWeightSummary;
+  try {
+    const [uploads, overrideRows] = await Promise.all([
+      fundingUpdatesHistory.findMany({
+        where: { guildId, trackerId, commandType: 'text_command' },
+        take: HISTORY_UPLOADS,
+      }),
+      fundingShiftWeights.findMany({ where: { guildId } }),
+    ]);
+    const since = Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000;
+    const { weights: learned, intervals } = learnShiftWeights(
+      uploads.filter((u) => new Date(u.calculatedAt).getTime() >= since),
+      config,
+    );
+    // Overrides for shifts that were since renamed or removed are kept but ignored.
+    const overrides: ShiftWeights = {};
+    for (const row of overrideRows) {
+      if (config.shifts.some((s) => s.name === row.shiftName)) overrides[row.shiftName] = row.weight;
+    }
+    summary = { learned, overrides, effective: { ...evenWeights(config), ...learned, ...overrides }, intervals };
+  } catch (error) {
+    console.error('[Funding] Failed to load shift weights:', error);
+    return { learned: null, overrides: {}, effective: evenWeights(config), intervals: 0 };
+  }
+
+  cache.set(cacheKey, { summary, expiresAt: Date.now() + CACHE_TTL_MS });
+  return summary;
+}
+
+/** Share a daily target across the remaining shifts by weight (rounded up, like the even split). */
+export function splitDailyTarget(dailyTargetPence: number, shifts: ShiftName[], weights: ShiftWeights): ShiftTarget[] {
+  const weightOf = (shift: ShiftName) => weights[shift] ?? 1;
+  const totalWeight = shifts.reduce((sum, s) => sum + weightOf(s), 0);
+  return shifts.map((shift) => ({
+    shift,
+    weight: weightOf(shift),
+    pence:
+      totalWeight > 0
+        ? Math.ceil((dailyTargetPence * weightOf(shift)) / totalWeight)
+        : Math.ceil(dailyTargetPence / shifts.length),
+  }));
+}
+
+function describeWeights(weights: ShiftWeights): string {
+  return Object.entries(weights)
+    .map(([shift, weight]) => `${shift} ×${weight.toFixed(2)}`)
+    .join(' • ');
+}
+
+/** Match a typed shift name to the configured one, ignoring case. */
+async function resolveShiftName(guildId: string, input: string): Promise<{ name: ShiftName } | { error: string }> {
+  const config = await getShiftConfig(guildId);
+  const match = config.shifts.find((s) => s.name.toLowerCase() === input.trim().toLowerCase());
+  if (match) return { name: match.name };
+  return { error: `❌ Unknown shift **${input}**. Shifts: ${config.shifts.map((s) => s.name).join(', ')}.` };
+}
+
+export async function handleFundingWeightsCommand(interaction: ChatInputCommandInteraction) {
+  const sub = interaction.options.getSubcommand();
+  const guildId = interaction.guildId!;
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    if (sub === 'set') {
+      const resolved = await resolveShiftName(guildId, interaction.options.getString('shift', true));
+      if ('error' in resolved) {
+        await interaction.editReply({ content: resolved.error });
+        return;
+      }
+      const shift = resolved.name;
+      const weight = interaction.options.getNumber('weight', true);
+      await fundingShiftWeights.upsert({ guildId, shiftName: shift, weight, setBy: interaction.user.id });
+      cache.clear();
+      await interaction.editReply({
+        content: `✅ ${shift} now counts as **×${weight.toFixed(2)}** of an average shift. It applies from the next calculation.`,
+      });
+      return;
+    }
+
+    if (sub === 'clear') {
+      // Clearing also accepts names that are no longer configured, so stale overrides can be removed.
+      const input = interaction.options.getString('shift', true);
+      const resolved = await resolveShiftName(guildId, input);
+      const shift = 'name' in resolved ? resolved.name : input.trim();
+      const removed = await fundingShiftWeights.delete({ where: { guildId, shiftName: shift } });
+      cache.clear();
+      await interaction.editReply({
+        content: removed > 0 ? `✅ ${shift} is back to its learned weight.` : `${shift} has no override.`,
+      });
+      return;
+    }
+
+    if (sub === 'show') {
+      // Overrides are shared by the guild, but each tracker learns from its own uploads.
+      const resolved = await resolveTrackerForInteraction(interaction);
+      if ('error' in resolved) {
+        await interaction.editReply({ content: resolved.error });
+        return;
+      }
+      cache.clear();
+      const summary = await getShiftWeights(guildId, resolved.tracker.id);
+      await interaction.editReply({
+        embeds: [
+          {
+            title: `⚖️ Shift Weights • ${resolved.tracker.name}`,
+            fields: [
+              {
+                name: 'Learned',
+                value: summary.learned
+                  ? `${describeWeights(summary.learned)}\nFrom ${summary.intervals} upload-to-upload drops in the last ${HISTORY_DAYS} days`
+                  : `Not enough upload history yet (${summary.intervals}/${MIN_INTERVALS} usable drops).`,
+                inline: false,
+              },
+              {
+                name: 'Overrides',
+                value: Object.keys(summary.overrides).length ? describeWeights(summary.overrides) : 'None',
+                inline: false,
+              },
+              { name: 'In use', value: `**${describeWeights(summary.effective)}**`, inline: false },
+            ],
+            color: 0x5865f2,
+            footer: { text: 'The daily target is shared across the remaining shifts in proportion to these weights' },
+          },
+        ],
+      });
+      return;
+    }
+  } catch (error: any) {
+    console.error('Error handling /funding weights:', error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to update shift weights'}` });
+  }
+}
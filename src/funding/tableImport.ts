@@ -0,0 +1,367 @@
+import { inflateRawSync } from 'node:zlib';
+import { isAmbiguousAmount, parseMoneyToPence, type CurrencyCode } from './money.js';
+import {
+  normalizeRowName,
+  reconcileNeededValues,
+  type NeededParseOptions,
+  type NeededParseResult,
+  type NeededRow,
+} from './parseNeeded.js';
+
+/**
+ * Funding tables that arrive as data rather than screenshots: .csv / .xlsx attachments and
+ * tab- or pipe-separated tables pasted as a message. They skip OCR and go straight to the same
+ * NeededParseResult the image parser produces.
+ */
+
+export type TableCells = string[][];
+
+// Spreadsheets larger than this are not funding tables; also caps what a zip entry may inflate to.
+export const MAX_TABLE_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_XLSX_ENTRY_BYTES = 20 * 1024 * 1024;
+// The header row is looked for among the first few rows, after any title or notes lines.
+const HEADER_SEARCH_ROWS = 10;
+// Values typed from the data are exact, so rows are as trustworthy as the review flow allows.
+const TABLE_ROW_CONFIDENCE = 100;
+// Below the review threshold: an amount like "1,234" could be either reading, or a cell could not be read at all.
+const AMBIGUOUS_AMOUNT_CONFIDENCE = 50;
+const UNREADABLE_AMOUNT_CONFIDENCE = 0;
+
+export type TableAttachmentKind = 'csv' | 'xlsx';
+
+export function getTableAttachmentKind(att: { contentType?: string | null; name?: string | null }): TableAttachmentKind | null {
+  const name = att.name ?? '';
+  const type = att.contentType ?? '';
+  if (/\.csv$/i.test(name) || type.startsWith('text/csv')) return 'csv';
+  if (/\.xlsx$/i.test(name) || type.startsWith('application/vnd.openxmlformats-officedocument.spreadsheetml')) {
+    return 'xlsx';
+  }
+  return null;
+}
+
+/** RFC 4180 style: quoted fields may hold the delimiter, newlines and doubled quotes. */
+export function parseDelimited(text: string, delimiter: string): TableCells {
+  const rows: TableCells = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]!;
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell !== ''));
+}
+
+export function getCsvDelimiter(text: string): ',' | ';' {
+  // Excel writes ';'-separated CSV in locales that use a decimal comma.
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+}
+
+export function parseCsv(text: string): TableCells {
+  return parseDelimited(text, getCsvDelimiter(text));
+}
+
+/**
+ * Cells of a table pasted as a message: tab-separated (copied from a spreadsheet) or
+ * pipe-separated (Markdown style). Null when the text is not a table of at least two rows.
+ */
+export function parsePastedTable(content: string): TableCells | null {
+  const text = content.replace(/^```[^\n]*\n?|```\s*$/g, '').trim();
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) return null;
+
+  if (lines.filter((l) => l.includes('\t')).length >= 2) {
+    return parseDelimited(lines.join('\n'), '\t');
+  }
+  if (lines.filter((l) => l.includes('|')).length >= 2) {
+    return lines
+      .filter((l) => l.includes('|'))
+      .filter((l) => !/^\s*\|?[\s:|-]+\|?\s*$/.test(l)) // Markdown separator row
+      .map((l) =>
+        l
+          .trim()
+          .replace(/^\||\|$/g, '')
+          .split('|')
+          .map((cell) => cell.trim()),
+      );
+  }
+  return null;
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads single entries out of a zip archive (an .xlsx file) from its central directory. Every
+ * offset comes from the uploaded file, so each one is checked against its length before use.
+ * Throws on anything it cannot read, including zip64 and encrypted archives.
+ */
+function readZipEntries(buffer: Buffer): (name: string) => string | null {
+  const damaged = (): never => {
+    throw new Error('The .xlsx file is damaged');
+  };
+  const u16 = (at: number) => (at >= 0 && at + 2 <= buffer.length ? buffer.readUInt16LE(at) : damaged());
+  const u32 = (at: number) => (at >= 0 && at + 4 <= buffer.length ? buffer.readUInt32LE(at) : damaged());
+
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+  const count = u16(eocd + 10);
+  let p = u32(eocd + 16);
+  // Spreadsheets small enough to be funding tables never need zip64, which marks these fields as all ones.
+  if (count === 0xffff || p === 0xffffffff) throw new Error('Unsupported .xlsx file (zip64)');
+
+  const entries = new Map<string, { flags: number; method: number; size: number; compressedSize: number; offset: number }>();
+  for (let i = 0; i < count; i++) {
+    if (u32(p) !== 0x02014b50) damaged();
+    const nameLength = u16(p + 28);
+    if (p + 46 + nameLength > buffer.length) damaged();
+    const entry = {
+      flags: u16(p + 8),
+      method: u16(p + 10),
+      compressedSize: u32(p + 20),
+      size: u32(p + 24),
+      offset: u32(p + 42),
+    };
+    if (entry.compressedSize === 0xffffffff || entry.size === 0xffffffff || entry.offset === 0xffffffff) {
+      throw new Error('Unsupported .xlsx file (zip64)');
+    }
+    entries.set(buffer.toString('utf8', p + 46, p + 46 + nameLength), entry);
+    p += 46 + nameLength + u16(p + 30) + u16(p + 32);
+  }
+
+  return (name) => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    if (entry.flags & 0x1) throw new Error('Password-protected .xlsx files cannot be read');
+    if (entry.size > MAX_XLSX_ENTRY_BYTES) throw new Error('The spreadsheet is too large');
+    // Sizes come from the central directory; entries written with a data descriptor leave them out of the local header.
+    const local = entry.offset;
+    if (u32(local) !== 0x04034b50) damaged();
+    const start = local + 30 + u16(local + 26) + u16(local + 28);
+    if (start + entry.compressedSize > buffer.length) damaged();
+    const data = buffer.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return data.toString('utf8');
+    if (entry.method === 8) return inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_BYTES }).toString('utf8');
+    throw new Error(`Unsupported .xlsx compression (${entry.method})`);
+  };
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0]?.toUpperCase() ?? '';
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/**
+ * Cells of the first worksheet of an .xlsx workbook, as displayed text (numbers unformatted).
+ * Empty when the file is not a workbook that can be read, so it gets the same reply as a
+ * spreadsheet without a Needed column.
+ */
+export function readXlsxCells(buffer: Buffer): TableCells {
+  try {
+    return readWorksheetCells(readZipEntries(buffer));
+  } catch (error) {
+    console.error('[Funding] Could not read .xlsx attachment:', error);
+    return [];
+  }
+}
+
+function readWorksheetCells(read: (name: string) => string | null): TableCells {
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map((si) =>
+    [...si[1]!.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((t) => decodeXml(t[1]!)).join(''),
+  );
+
+  // The first sheet in workbook order, which is not always sheet1.xml.
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const firstSheetRel = read('xl/workbook.xml')?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const rels = read('xl/_rels/workbook.xml.rels') ?? '';
+  for (const rel of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (firstSheetRel && rel[0].includes(`Id="${firstSheetRel}"`)) {
+      const target = rel[0].match(/Target="([^"]+)"/)?.[1];
+      if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  const sheet = read(sheetPath);
+  if (!sheet) throw new Error('The spreadsheet has no worksheet');
+
+  const rows: TableCells = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cell of rowMatch[1]!.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1] ?? '';
+      const body = cell[2] ?? '';
+      const ref = attrs.match(/\br="([A-Z]+)\d+"/)?.[1];
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+      if (type === 's' && raw !== undefined) value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = [...body.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((t) => decodeXml(t[1]!)).join('');
+      else if (raw !== undefined && (type === undefined || type === 'n')) {
+        // Stored as binary floating point; 1234.5600000000001 should still read as 1234.56.
+        const n = Number(raw);
+        value = Number.isFinite(n) ? String(Math.round(n * 100) / 100) : raw;
+      } else if (raw !== undefined) value = decodeXml(raw);
+      row[ref ? columnIndex(ref) : row.length] = value.trim();
+    }
+    rows.push(Array.from(row, (v) => v ?? ''));
+  }
+  return rows.filter((r) => r.some((cell) => cell !== ''));
+}
+
+type ColumnKey = 'name' | 'needed' | 'target' | 'achieved';
+
+// Header words for each column; the OCR parser uses the same vocabulary for Target / Achieved.
+const HEADER_PATTERNS: Record<ColumnKey, RegExp> = {
+  needed: /need|remaining|outstanding|left|to go|owed/,
+  target: /target|goal|quota/,
+  achieved: /achiev|raised|actual|done|earned/,
+  name: /name|model|creator|chatter|account|page|who/,
+};
+
+function mapHeaderRow(row: string[]): Partial<Record<ColumnKey, number>> | null {
+  const columns: Partial<Record<ColumnKey, number>> = {};
+  // Amount columns are claimed first so a header like "Left" is never mistaken for the name column.
+  for (const key of ['needed', 'target', 'achieved', 'name'] as const) {
+    const index = row.findIndex(
+      (cell, i) => HEADER_PATTERNS[key].test(cell.toLowerCase()) && !Object.values(columns).includes(i),
+    );
+    if (index >= 0) columns[key] = index;
+  }
+  if (columns.needed === undefined && (columns.target === undefined || columns.achieved === undefined)) return null;
+  // Without a Name header, the first column that is not an amount holds the names.
+  if (columns.name === undefined) {
+    const taken = new Set(Object.values(columns));
+    const index = row.findIndex((_, i) => !taken.has(i));
+    if (index < 0) return null;
+    columns.name = index;
+  }
+  return columns;
+}
+
+export type TableParseOptions = NeededParseOptions & {
+  // Amounts write ',' before the cents, as in a ';'-separated CSV
+  decimalComma?: boolean;
+};
+
+type CellAmount = { pence: number | null; ambiguous: boolean };
+
+function parseCellPence(cell: string | undefined, options: TableParseOptions): CellAmount {
+  const value = (cell ?? '').trim();
+  if (!value || value === '-' || value === '—') return { pence: null, ambiguous: false };
+  // A negative Needed (or accounting-style "(12.00)") means the row is over its target.
+  const negative = /^-|^\(.*\)$/.test(value);
+  const amount = value.replace(/^-|^\(|\)$/g, '');
+  // parseMoneyToPence reads "1.234" / "12,345" the way the currency writes decimals; EUR's way is the decimal comma.
+  const currency: CurrencyCode | undefined = options.decimalComma ? 'EUR' : options.currency;
+  const pence = parseMoneyToPence(amount, currency);
+  if (pence === null) return { pence: null, ambiguous: false };
+  return { pence: negative ? 0 : pence, ambiguous: !options.decimalComma && isAmbiguousAmount(amount) };
+}
+
+function rowConfidence(neededPence: number | null, amounts: CellAmount[]): number {
+  if (neededPence === null) return UNREADABLE_AMOUNT_CONFIDENCE;
+  return amounts.some((a) => a.ambiguous) ? AMBIGUOUS_AMOUNT_CONFIDENCE : TABLE_ROW_CONFIDENCE;
+}
+
+/**
+ * Map a table's header row to Name / Needed (and optional Target / Achieved) columns and read the
+ * rows below it. Null when no header row with a Needed column (or Target and Achieved) is found.
+ */
+export function extractNeededValuesFromTable(cells: TableCells, options: TableParseOptions = {}): NeededParseResult | null {
+  const aliases = options.aliases ?? new Map<string, string>();
+  const resolveName = (name: string) => aliases.get(normalizeRowName(name)) ?? name;
+
+  let headerIndex = -1;
+  let columns: Partial<Record<ColumnKey, number>> | null = null;
+  for (let i = 0; i < Math.min(cells.length, HEADER_SEARCH_ROWS); i++) {
+    columns = mapHeaderRow(cells[i]!);
+    if (columns) {
+      headerIndex = i;
+      break;
+    }
+  }
+  if (!columns || headerIndex < 0) return null;
+  const at = (row: string[], key: ColumnKey) => (columns[key] === undefined ? undefined : row[columns[key]!]);
+
+  const rows: NeededRow[] = [];
+  const seen = new Set<string>();
+  for (const row of cells.slice(headerIndex + 1)) {
+    const rawName = at(row, 'name')?.replace(/\s+/g, ' ').trim() ?? '';
+    // Spreadsheets often end with a totals row; the total is worked out from the rows themselves.
+    if (!rawName || /^(grand\s+)?totals?:?$/i.test(rawName)) continue;
+    const name = resolveName(rawName);
+    const key = normalizeRowName(name);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const needed = parseCellPence(at(row, 'needed'), options);
+    const target = parseCellPence(at(row, 'target'), options);
+    const achieved = parseCellPence(at(row, 'achieved'), options);
+    if (columns.target === undefined && columns.achieved === undefined) {
+      rows.push({ name, neededPence: needed.pence, confidence: rowConfidence(needed.pence, [needed]) });
+    } else {
+      const reconciled = reconcileNeededValues(needed.pence, target.pence, achieved.pence);
+      rows.push({ name, confidence: rowConfidence(reconciled.neededPence, [needed, target, achieved]), ...reconciled });
+    }
+  }
+
+  const neededPenceValues = rows.filter((r) => r.neededPence !== null).map((r) => r.neededPence!);
+  return {
+    neededPenceValues,
+    rows,
+    totalPence: neededPenceValues.reduce((sum, v) => sum + v, 0),
+    debug: {},
+  };
+}
+
+/** Plain-text copy of a table for the history's OCR text column. */
+export function tableToText(cells: TableCells): string {
+  return cells.map((row) => row.join('\t')).join('\n');
+}
@@ -0,0 +1,227 @@
+import type { Client, TextChannel } from 'discord.js';
+import { prisma } from '../db/index.js';
+import { getEnv } from '../env.js';
+import { getShiftConfig } from '../shiftConfig.js';
+import { getCurrentAdjustmentPence } from './adjustments.js';
+import { hasRowChanges, renderRowDiffForEmbed, type FundingRowDiff } from './diff.js';
+import { renderPaceForEmbed, type FundingPace } from './forecast.js';
+import { describeConverted, formatPence, type CurrencyCode, type CurrencyConversion } from './money.js';
+import type { NeededRow } from './parseNeeded.js';
+import { renderRowsForEmbed, sanitizeEmbedFields } from './render.js';
+import { getShiftWeights, splitDailyTarget, type ShiftTarget, type ShiftWeights } from './shiftWeights.js';
+import { DEFAULT_TRACKER_ID, type FundingTracker } from './trackers.js';
+import {
+  addDaysIso,
+  daysBetweenIsoInclusive,
+  getUkShiftInfo,
+  daysUntilEndOfWeek,
+  getEndOfWeekIso,
+  type ShiftConfig,
+  type ShiftInfo,
+} from './ukTime.js';
+
+export type FundingRecalcOptions = {
+  endDate?: string | null;
+  daysLeftOverride?: number | null;
+  addAmount?: number | null;
+  removeAmount?: number | null;
+  resetAdjustment?: boolean | null;
+  voidAdjustment?: boolean | null;
+};
+
+export type FundingCalculation = {
+  shiftInfo: ShiftInfo;
+  parsedTotalPence: number;
+  manualAdjustmentPence: number;
+  manualAdjustmentType: 'add' | 'remove' | 'reset' | 'void' | null;
+  remainingPence: number;
+  endDate: string | null; // explicit end date (null = run to end of week)
+  endOfWeekDate: string; // the date the countdown runs to
+  daysLeft: number; // includes today
+  dailyTargetPence: number;
+  perShiftPence: number; // even split, kept for history and comparison
+  shiftTargets: ShiftTarget[]; // weighted split across the remaining shifts
+};
+
+export function isValidIsoDate(iso: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(iso);
+}
+
+/**
+ * Work out remaining total, days left, daily target and per-shift split.
+ * Days are counted on the UK shift-day (which starts at 03:00), inclusive of today.
+ */
+export function calculateFundingTargets(
+  state: {
+    parsedTotalPence: number;
+    manualAdjustmentPence: number;
+    endDate: string | null;
+    shiftConfig?: ShiftConfig;
+    shiftWeights?: ShiftWeights;
+  },
+  options: FundingRecalcOptions = {},
+  now = new Date(),
+): FundingCalculation {
+  const shiftInfo = getUkShiftInfo(now, state.shiftConfig);
+  const today = shiftInfo.shiftDayIsoDate;
+
+  // The adjustment is already the ledger sum; the options only say what this calculation changed, for history.
+  const manualAdjustmentPence = state.manualAdjustmentPence;
+  const manualAdjustmentType: FundingCalculation['manualAdjustmentType'] = options.removeAmount
+    ? 'remove'
+    : options.addAmount
+      ? 'add'
+      : options.resetAdjustment
+        ? 'reset'
+        : options.voidAdjustment
+          ? 'void'
+          : null;
+
+  // days_left wins over end_date: it is turned into an end date so later uploads keep counting down.
+  let endDate = options.endDate !== undefined && options.endDate !== null ? options.endDate : state.endDate;
+  if (options.daysLeftOverride) endDate = addDaysIso(today, options.daysLeftOverride - 1);
+  if (endDate && !isValidIsoDate(endDate)) endDate = null;
+
+  const endOfWeekDate = endDate ?? getEndOfWeekIso(today);
+  const daysLeft = Math.max(1, endDate ? daysBetweenIsoInclusive(today, endDate) : daysUntilEndOfWeek(today));
+
+  const remainingPence = Math.max(0, state.parsedTotalPence + manualAdjustmentPence);
+  const dailyTargetPence = Math.ceil(remainingPence / daysLeft);
+  const perShiftPence = Math.ceil(dailyTargetPence / Math.max(1, shiftInfo.remainingShiftsToday.length));
+  const shiftTargets = splitDailyTarget(
+    dailyTargetPence,
+    shiftInfo.remainingShiftsToday,
+    state.shiftWeights ?? {},
+  );
+
+  return {
+    shiftInfo,
+    parsedTotalPence: state.parsedTotalPence,
+    manualAdjustmentPence,
+    manualAdjustmentType,
+    remainingPence,
+    endDate,
+    endOfWeekDate,
+    daysLeft,
+    dailyTargetPence,
+    perShiftPence,
+    shiftTargets,
+  };
+}
+
+export function buildFundingEmbed(input: {
+  calc: FundingCalculation;
+  rows: NeededRow[];
+  currency: CurrencyCode;
+  conversion?: CurrencyConversion | null;
+  title?: string;
+  rowsTitle?: string;
+  updatedByUserId?: string | null;
+  historyId?: string | null;
+  rowDiff?: { diff: FundingRowDiff; previousUploadAt: string } | null;
+  pace?: FundingPace | null;
+}) {
+  const { calc, currency } = input;
+  const fmt = (pence: number) => formatPence(pence, currency);
+  // Targets (not table rows) are also shown in the tracker's report currency when it has one.
+  const target = (pence: number) => `**${fmt(pence)}**${describeConverted(pence, input.conversion)}`;
+  const { text: rowsText, flaggedCount } = renderRowsForEmbed(input.rows, currency);
+
+  const adj = calc.manualAdjustmentPence;
+  const remainingValue =
+    adj === 0
+      ? target(calc.remainingPence)
+      : `${target(calc.remainingPence)}\nTable ${fmt(calc.parsedTotalPence)} ${adj > 0 ? '+' : '−'} ${fmt(Math.abs(adj))} adjustment`;
+  const endLabel = calc.endDate ? calc.endDate : `${calc.endOfWeekDate} (end of week)`;
+  const shifts = calc.shiftInfo.remainingShiftsToday;
+  const evenSplit = `${target(calc.perShiftPence)} × ${shifts.length} (${shifts.join(', ')})`;
+  const isWeighted = new Set(calc.shiftTargets.map((t) => t.weight)).size > 1;
+  const perShiftValue = isWeighted
+    ? calc.shiftTargets.map((t) => `${t.shift}: ${target(t.pence)} (×${t.weight.toFixed(2)})`).join('\n') +
+      `\nEven split: ${fmt(calc.perShiftPence)} each`
+    : evenSplit;
+
+  const fields = [
+    { name: '💰 Remaining', value: remainingValue, inline: true },
+    { name: '📅 Days left', value: `**${calc.daysLeft}** (to ${endLabel})`, inline: true },
+    { name: '🎯 Daily target', value: target(calc.dailyTargetPence), inline: true },
+    {
+      name: '⏱️ Per shift',
+      value: `${perShiftValue}\nCurrent shift: ${calc.shiftInfo.currentShift}`,
+      inline: false,
+    },
+  ];
+  if (input.pace !== undefined) {
+    fields.push({ name: '📈 Pace', value: renderPaceForEmbed(input.pace, currency), inline: false });
+  }
+  if (input.rowDiff && hasRowChanges(input.rowDiff.diff)) {
+    const since = Math.floor(new Date(input.rowDiff.previousUploadAt).getTime() / 1000);
+    fields.push({
+      name: '🔁 Since last upload',
+      value: `<t:${since}:R>\n${renderRowDiffForEmbed(input.rowDiff.diff, currency)}`,
+      inline: false,
+    });
+  }
+  if (input.rows.length > 0) {
+    fields.push({ name: input.rowsTitle ?? `📋 Rows (${input.rows.length})`, value: rowsText, inline: false });
+  }
+  sanitizeEmbedFields(fields);
+
+  const footer = [
+    flaggedCount > 0 ? `⚠️ ${flaggedCount} flagged row(s) – please double-check` : null,
+    `Shift day ${calc.shiftInfo.shiftDayIsoDate}`,
+    input.historyId ? `History ${input.historyId.slice(0, 8)}` : null,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+  return {
+    title: input.title ?? '📊 Funding Targets',
+    description: input.updatedByUserId ? `Updated by <@${input.updatedByUserId}>` : undefined,
+    fields,
+    color: flaggedCount > 0 ? 0xf59e0b : 0x22c55e,
+    footer: { text: footer },
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Per-tracker inputs every calculation needs besides the table total and end date. */
+export async function loadTrackerCalculationInputs(tracker: FundingTracker) {
+  return {
+    manualAdjustmentPence: await getCurrentAdjustmentPence(tracker.guildId, tracker.id),
+    shiftConfig: await getShiftConfig(tracker.guildId),
+    shiftWeights: (await getShiftWeights(tracker.guildId, tracker.id)).effective,
+  };
+}
+
+export function getFundingState(tracker: FundingTracker) {
+  return prisma.fundingState.findUnique({ where: { guildId: tracker.guildId, trackerId: tracker.id } });
+}
+
+/** Targets for the tracker's stored table as of now, or null before the first upload. */
+export async function getCurrentFundingTargets(tracker: FundingTracker, now = new Date()) {
+  const existing = await getFundingState(tracker);
+  if (existing?.lastParsedTotalPence === null || existing?.lastParsedTotalPence === undefined) return null;
+  return calculateFundingTargets(
+    {
+      parsedTotalPence: existing.lastParsedTotalPence,
+      endDate: existing.endDate ?? getEnvEndDate(tracker),
+      ...(await loadTrackerCalculationInputs(tracker)),
+    },
+    {},
+    now,
+  );
+}
+
+/** FUNDING_END_DATE belongs to the FUNDING_CHANNEL_ID tracker; other trackers set theirs with /funding update. */
+export function getEnvEndDate(tracker: FundingTracker): string | null {
+  if (tracker.id !== DEFAULT_TRACKER_ID) return null;
+  const env = getEnv();
+  return env.FUNDING_END_DATE && isValidIsoDate(env.FUNDING_END_DATE) ? env.FUNDING_END_DATE : null;
+}
+
+export async function getFundingChannel(client: Client, tracker: FundingTracker): Promise<TextChannel | null> {
+  const channel = await client.channels.fetch(tracker.channelId).catch(() => null);
+  if (!channel || !channel.isTextBased() || !('send' in channel)) return null;
+  return channel as TextChannel;
+}
@@ -0,0 +1,291 @@
+import type { ChatInputCommandInteraction, Client } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { fundingTrackers } from '../db/index.js';
+import { getEnv, getFundingExchangeRates } from '../env.js';
+import { isCurrencyCode, type CurrencyCode, type CurrencyConversion } from './money.js';
+import { sanitizeEmbedText } from './render.js';
+
+// The tracker bound to FUNDING_CHANNEL_ID. Rows written before trackers existed default to this id.
+export const DEFAULT_TRACKER_ID = 'default';
+
+export type FundingTracker = {
+  id: string;
+  guildId: string;
+  name: string;
+  channelId: string;
+  currency: CurrencyCode; // the currency the table is in
+  reportCurrency: CurrencyCode | null; // targets are also shown in this currency when a rate is configured
+};
+
+// The guild FUNDING_CHANNEL_ID belongs to; the default tracker only exists there. Set once the channel is found.
+let defaultTrackerGuildId: string | null = null;
+
+const CACHE_TTL_MS = 60 * 1000;
+// Every message in the guild is checked against the tracker channels, so the list is cached briefly.
+const cache = new Map<string, { trackers: FundingTracker[]; expiresAt: number }>();
+
+function toCurrency(code: string | null | undefined): CurrencyCode | null {
+  const upper = code?.trim().toUpperCase() ?? '';
+  return isCurrencyCode(upper) ? upper : null;
+}
+
+function toTracker(row: {
+  id: string;
+  guildId: string;
+  name: string;
+  channelId: string;
+  currency: string;
+  reportCurrency: string | null;
+}): FundingTracker {
+  const currency = toCurrency(row.currency) ?? 'USD';
+  const reportCurrency = toCurrency(row.reportCurrency);
+  return {
+    id: row.id,
+    guildId: row.guildId,
+    name: row.name,
+    channelId: row.channelId,
+    currency,
+    reportCurrency: reportCurrency === currency ? null : reportCurrency,
+  };
+}
+
+/**
+ * Find the guild that owns FUNDING_CHANNEL_ID, so the default tracker is only offered there.
+ * Call on startup; retried on later calls until the channel can be fetched. Never throws.
+ */
+export async function resolveDefaultTrackerGuild(client: Client): Promise<string | null> {
+  const channelId = getEnv().FUNDING_CHANNEL_ID;
+  if (!channelId || defaultTrackerGuildId) return defaultTrackerGuildId;
+  const channel = await client.channels.fetch(channelId).catch(() => null);
+  if (channel && !channel.isDMBased()) {
+    defaultTrackerGuildId = channel.guildId;
+    cache.delete(channel.guildId);
+  } else {
+    console.error(`[Funding] FUNDING_CHANNEL_ID ${channelId} is not a server channel the bot can see; the default tracker is unavailable`);
+  }
+  return defaultTrackerGuildId;
+}
+
+/** The FUNDING_CHANNEL_ID tracker in the guild that owns that channel, otherwise null. */
+export function getDefaultTracker(guildId: string): FundingTracker | null {
+  const env = getEnv();
+  if (!env.FUNDING_CHANNEL_ID || guildId !== defaultTrackerGuildId) return null;
+  return toTracker({
+    id: DEFAULT_TRACKER_ID,
+    guildId,
+    name: env.FUNDING_DEFAULT_TRACKER_NAME || 'Main',
+    channelId: env.FUNDING_CHANNEL_ID,
+    currency: env.FUNDING_CURRENCY,
+    reportCurrency: env.FUNDING_REPORT_CURRENCY || null,
+  });
+}
+
+/**
+ * The rate for showing a tracker's amounts in its report currency, from FUNDING_EXCHANGE_RATES
+ * (the reverse pair is used inverted). Null when no report currency is set or no rate is known.
+ */
+export function getReportConversion(tracker: FundingTracker): CurrencyConversion | null {
+  if (!tracker.reportCurrency) return null;
+  const rates = getFundingExchangeRates(getEnv());
+  const direct = rates.find((r) => r.from === tracker.currency && r.to === tracker.reportCurrency);
+  if (direct) return { currency: tracker.reportCurrency, rate: direct.rate };
+  const reverse = rates.find((r) => r.from === tracker.reportCurrency && r.to === tracker.currency);
+  if (reverse) return { currency: tracker.reportCurrency, rate: 1 / reverse.rate };
+  return null;
+}
+
+/** Active trackers for a guild, the FUNDING_CHANNEL_ID one first. Never throws. */
+export async function listTrackers(guildId: string): Promise<FundingTracker[]> {
+  const cached = cache.get(guildId);
+  if (cached && cached.expiresAt > Date.now()) return cached.trackers;
+
+  const defaultTracker = getDefaultTracker(guildId);
+  let trackers = defaultTracker ? [defaultTracker] : [];
+  try {
+    const rows = await fundingTrackers.findMany({ where: { guildId } });
+    trackers = [...trackers, ...rows.map(toTracker)];
+  } catch (error) {
+    console.error('[Funding] Failed to load trackers:', error);
+    return trackers;
+  }
+
+  cache.set(guildId, { trackers, expiresAt: Date.now() + CACHE_TTL_MS });
+  return trackers;
+}
+
+/**
+ * Active trackers in every guild, for background jobs. The FUNDING_CHANNEL_ID tracker is only
+ * included once the guild of its channel is known. Never throws.
+ */
+export async function listAllTrackers(client: Client): Promise<FundingTracker[]> {
+  const defaultGuildId = await resolveDefaultTrackerGuild(client);
+  const defaultTracker = defaultGuildId ? getDefaultTracker(defaultGuildId) : null;
+  try {
+    const rows = await fundingTrackers.findMany({ where: {} });
+    return [...(defaultTracker ? [defaultTracker] : []), ...rows.map(toTracker)];
+  } catch (error) {
+    console.error('[Funding] Failed to load trackers:', error);
+    return defaultTracker ? [defaultTracker] : [];
+  }
+}
+
+export async function findTrackerByChannel(guildId: string, channelId: string): Promise<FundingTracker | null> {
+  return (await listTrackers(guildId)).find((t) => t.channelId === channelId) ?? null;
+}
+
+export async function findTrackerByName(guildId: string, name: string): Promise<FundingTracker | null> {
+  const needle = name.trim().toLowerCase();
+  return (await listTrackers(guildId)).find((t) => t.name.toLowerCase() === needle) ?? null;
+}
+
+export async function getTracker(guildId: string, trackerId: string): Promise<FundingTracker | null> {
+  return (await listTrackers(guildId)).find((t) => t.id === trackerId) ?? null;
+}
+
+/**
+ * The tracker a /funding command applies to: the `tracker` option when given, otherwise the one
+ * bound to the channel the command was used in, otherwise the only (or default) tracker.
+ */
+export async function resolveTrackerForInteraction(
+  interaction: ChatInputCommandInteraction,
+): Promise<{ tracker: FundingTracker } | { error: string }> {
+  const guildId = interaction.guildId!;
+  const trackers = await listTrackers(guildId);
+  const names = trackers.map((t) => `**${t.name}**`).join(', ');
+
+  const name = interaction.options.getString('tracker')?.trim();
+  if (name) {
+    const tracker = await findTrackerByName(guildId, name);
+    return tracker ? { tracker } : { error: `❌ Unknown tracker **${name}**. Trackers: ${names || 'none'}.` };
+  }
+
+  const tracker =
+    trackers.find((t) => t.channelId === interaction.channelId) ??
+    trackers.find((t) => t.id === DEFAULT_TRACKER_ID) ??
+    (trackers.length === 1 ? trackers[0] : null);
+  if (tracker) return { tracker };
+  if (trackers.length === 0) {
+    return { error: '❌ No funding tracker is configured for this server. Staff can add one with `/funding tracker create`.' };
+  }
+  return { error: `❌ Several trackers exist; pick one with the \`tracker\` option or run this in its channel. Trackers: ${names}.` };
+}
+
+function describeConversionProblem(tracker: FundingTracker): string {
+  if (!tracker.reportCurrency || getReportConversion(tracker)) return '';
+  return `\n⚠️ No ${tracker.currency}/${tracker.reportCurrency} rate is set in FUNDING_EXCHANGE_RATES, so targets are only shown in ${tracker.currency}.`;
+}
+
+export async function handleFundingTrackerCommand(interaction: ChatInputCommandInteraction) {
+  const sub = interaction.options.getSubcommand();
+  const guildId = interaction.guildId!;
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    if (sub === 'create') {
+      const name = interaction.options.getString('name', true).trim();
+      const channel = interaction.options.getChannel('channel', true);
+      const currency = toCurrency(interaction.options.getString('currency')) ?? 'USD';
+      const reportCurrency = toCurrency(interaction.options.getString('report_currency'));
+      const trackers = await listTrackers(guildId);
+      if (trackers.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+        await interaction.editReply({ content: `❌ A tracker called **${name}** already exists.` });
+        return;
+      }
+      const clash = trackers.find((t) => t.channelId === channel.id);
+      if (clash) {
+        await interaction.editReply({ content: `❌ <#${channel.id}> is already used by the **${clash.name}** tracker.` });
+        return;
+      }
+      const created = await fundingTrackers.create({
+        guildId,
+        name,
+        channelId: channel.id,
+        currency,
+        reportCurrency,
+        createdBy: interaction.user.id,
+      });
+      cache.delete(guildId);
+      await interaction.editReply({
+        content:
+          `✅ Tracker **${name}** created. Screenshots posted in <#${channel.id}> now update it (${currency}).` +
+          describeConversionProblem(toTracker(created)),
+      });
+      return;
+    }
+
+    if (sub === 'currency') {
+      const name = interaction.options.getString('name', true);
+      const tracker = await findTrackerByName(guildId, name);
+      if (!tracker) {
+        await interaction.editReply({ content: `❌ Unknown tracker **${name}**.` });
+        return;
+      }
+      if (tracker.id === DEFAULT_TRACKER_ID) {
+        await interaction.editReply({
+          content: '❌ The FUNDING_CHANNEL_ID tracker takes its currency from FUNDING_CURRENCY and FUNDING_REPORT_CURRENCY.',
+        });
+        return;
+      }
+      const currency = toCurrency(interaction.options.getString('currency', true)) ?? tracker.currency;
+      const reportCurrency = toCurrency(interaction.options.getString('report_currency'));
+      const updated = await fundingTrackers.update({ where: { id: tracker.id }, data: { currency, reportCurrency } });
+      cache.delete(guildId);
+      await interaction.editReply({
+        content:
+          `✅ **${tracker.name}** now counts in ${currency}` +
+          (reportCurrency && reportCurrency !== currency ? ` and also reports targets in ${reportCurrency}.` : '.') +
+          (updated ? describeConversionProblem(toTracker(updated)) : ''),
+      });
+      return;
+    }
+
+    if (sub === 'list') {
+      const trackers = await listTrackers(guildId);
+      await interaction.editReply({
+        embeds: [
+          {
+            title: '🗂️ Funding Trackers',
+            description: trackers.length
+              ? sanitizeEmbedText(
+                  trackers
+                    .map(
+                      (t) =>
+                        `**${t.name}** • <#${t.channelId}> • ${t.currency}` +
+                        (t.reportCurrency ? ` → ${t.reportCurrency}` : '') +
+                        (t.id === DEFAULT_TRACKER_ID ? ' • from FUNDING_CHANNEL_ID' : ''),
+                    )
+                    .join('\n'),
+                )
+              : 'No trackers yet. Use `/funding tracker create` to add one.',
+            color: 0x5865f2,
+          },
+        ],
+      });
+      return;
+    }
+
+    if (sub === 'archive') {
+      const name = interaction.options.getString('name', true);
+      const tracker = await findTrackerByName(guildId, name);
+      if (!tracker) {
+        await interaction.editReply({ content: `❌ Unknown tracker **${name}**.` });
+        return;
+      }
+      if (tracker.id === DEFAULT_TRACKER_ID) {
+        await interaction.editReply({
+          content: '❌ The FUNDING_CHANNEL_ID tracker is configured in the environment and cannot be archived here.',
+        });
+        return;
+      }
+      await fundingTrackers.archive({ where: { id: tracker.id } });
+      cache.delete(guildId);
+      await interaction.editReply({
+        content: `✅ Tracker **${tracker.name}** archived. <#${tracker.channelId}> no longer updates funding; its history is kept.`,
+      });
+      return;
+    }
+  } catch (error: any) {
+    console.error('Error handling /funding tracker:', error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to update funding trackers'}` });
+  }
+}
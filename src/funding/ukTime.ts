@@ -1,4 +1,4 @@
-export type ShiftName = 'Morning' | 'Day' | 'Night';
+export type ShiftName = string;
 
 export type UkNow = {
   isoDate: string; // YYYY-MM-DD in UK
@@ -52,33 +52,173 @@ export function addDaysIso(isoDate: string, deltaDays: number): string {
   return `${String(yy).padStart(4, '0')}-${String(mm).padStart(2, '0')}-${String(dd).padStart(2, '0')}`;
 }
 
+export type ShiftDefinition = {
+  name: ShiftName;
+  start: string; // HH:MM UK time
+  end: string; // HH:MM UK time; may be earlier than start for shifts that run past midnight
+};
+
+export type ShiftConfig = {
+  shifts: ShiftDefinition[]; // cover the whole day without gaps or overlaps
+  rollover: string; // HH:MM UK time the shift-day starts; always the start of a shift
+};
+
+export const DEFAULT_SHIFT_CONFIG: ShiftConfig = {
+  shifts: [
+    { name: 'Morning', start: '03:00', end: '11:00' },
+    { name: 'Day', start: '11:00', end: '19:00' },
+    { name: 'Night', start: '19:00', end: '03:00' },
+  ],
+  rollover: '03:00',
+};
+
 export type ShiftInfo = {
   ukNow: UkNow;
-  shiftDayIsoDate: string; // shift-day starts at 03:00 UK
+  shiftDayIsoDate: string; // shift-day starts at the configured rollover time (03:00 by default)
   currentShift: ShiftName;
   remainingShiftsToday: ShiftName[]; // includes current shift
 };
 
-export function getUkShiftInfo(date = new Date()): ShiftInfo {
+export function parseClockMinutes(hhmm: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 23 || m > 59) return null;
+  return h * 60 + m;
+}
+
+function getRolloverMinutes(config: ShiftConfig): number {
+  return parseClockMinutes(config.rollover) ?? 0;
+}
+
+/** Shifts as [start, end) minutes from the rollover, in shift-day order. */
+export function getShiftWindows(config: ShiftConfig): { name: ShiftName; start: number; end: number }[] {
+  const rollover = getRolloverMinutes(config);
+  const fromRollover = (hhmm: string) => ((parseClockMinutes(hhmm) ?? 0) - rollover + 24 * 60) % (24 * 60);
+  return config.shifts
+    .map((s) => ({ name: s.name, start: fromRollover(s.start), end: fromRollover(s.end) || 24 * 60 }))
+    .sort((a, b) => a.start - b.start);
+}
+
+/** Problems with a shift configuration, or an empty list when shifts tile the day. */
+export function validateShiftConfig(config: ShiftConfig): string[] {
+  const errors: string[] = [];
+  if (config.shifts.length === 0) return ['At least one shift is required.'];
+  if (parseClockMinutes(config.rollover) === null) {
+    errors.push('The rollover time must be HH:MM between 00:00 and 23:59.');
+  }
+  const names = new Set<string>();
+  for (const s of config.shifts) {
+    if (!s.name.trim()) errors.push('Every shift needs a name.');
+    if (names.has(s.name.toLowerCase())) errors.push(`Shift name **${s.name}** is used twice.`);
+    names.add(s.name.toLowerCase());
+    if (parseClockMinutes(s.start) === null || parseClockMinutes(s.end) === null) {
+      errors.push(`**${s.name}** needs start and end times as HH:MM.`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  const rollover = getRolloverMinutes(config);
+  if (!config.shifts.some((s) => parseClockMinutes(s.start) === rollover)) {
+    errors.push(`A shift must start at the rollover time (${config.rollover}).`);
+    return errors;
+  }
+  // Sorted from the rollover, each shift must end where the next one starts and the last must reach 24h.
+  const windows = getShiftWindows(config);
+  let expectedStart = 0;
+  for (const w of windows) {
+    if (w.start !== expectedStart || w.end <= w.start) {
+      errors.push('Shifts must cover the whole day with no gaps or overlaps.');
+      break;
+    }
+    expectedStart = w.end;
+  }
+  if (errors.length === 0 && expectedStart !== 24 * 60) errors.push('Shifts must cover the whole day with no gaps or overlaps.');
+  return errors;
+}
+
+function minutesIntoShiftDay(ukNow: UkNow, config: ShiftConfig): number {
+  const mins = ukNow.hour * 60 + ukNow.minute;
+  return (mins - getRolloverMinutes(config) + 24 * 60) % (24 * 60);
+}
+
+export function getUkShiftInfo(date = new Date(), config: ShiftConfig = DEFAULT_SHIFT_CONFIG): ShiftInfo {
   const ukNow = getUkNow(date);
   const mins = ukNow.hour * 60 + ukNow.minute;
 
-  // Treat 00:00–02:59 as continuation of the prior shift-day (night shift).
-  const shiftDayIsoDate = mins < 3 * 60 ? addDaysIso(ukNow.isoDate, -1) : ukNow.isoDate;
+  // Times before the rollover belong to the previous shift-day (e.g. 00:00–02:59 is still last night).
+  const shiftDayIsoDate = mins < getRolloverMinutes(config) ? addDaysIso(ukNow.isoDate, -1) : ukNow.isoDate;
+
+  const minsInShiftDay = minutesIntoShiftDay(ukNow, config);
+  const windows = getShiftWindows(config);
+  const currentIndex = Math.max(
+    0,
+    windows.findIndex((w) => minsInShiftDay >= w.start && minsInShiftDay < w.end),
+  );
+
+  return {
+    ukNow,
+    shiftDayIsoDate,
+    currentShift: windows[currentIndex].name,
+    remainingShiftsToday: windows.slice(currentIndex).map((w) => w.name),
+  };
+}
+
+/** Minutes the UK is ahead of UTC at an instant: 0 in winter (GMT), 60 in summer (BST). */
+function getUkOffsetMinutes(date: Date): number {
+  const uk = getUkNow(date);
+  const wallClock = Date.UTC(uk.year, uk.month - 1, uk.day, uk.hour, uk.minute, uk.second);
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+/**
+ * The instant a UK wall-clock time falls at, with the offset in force at that time rather than
+ * now. Minutes past 24h run into the next day. A time the autumn change repeats resolves to the
+ * earlier or later of its two readings; one the spring change skips, to the moment of the change.
+ */
+function ukWallClockToDate(isoDate: string, minutesOfDay: number, prefer: 'earlier' | 'later'): Date {
+  const [y, m, d] = isoDate.split('-').map((x) => Number(x));
+  const wallClock = Date.UTC(y, m - 1, d) + minutesOfDay * 60_000;
+  // The offsets either side of this time: two different ones when a clock change falls on the day.
+  const offsets = new Set([-12, 12].map((h) => getUkOffsetMinutes(new Date(wallClock + h * 60 * 60_000))));
+  const candidates = [...offsets].map((offset) => wallClock - offset * 60_000).sort((a, b) => a - b);
+  const valid = candidates.filter((t) => getUkOffsetMinutes(new Date(t)) * 60_000 === wallClock - t);
+  if (valid.length > 0) return new Date(prefer === 'earlier' ? valid[0] : valid[valid.length - 1]);
 
-  // Normalize minutes into the shift-day range [03:00, 27:00)
-  const minsInShiftDay = mins < 3 * 60 ? mins + 24 * 60 : mins;
+  // Skipped: the clocks jump past this time when they change, which lies between the two readings.
+  let [before, after] = candidates;
+  const offsetBefore = getUkOffsetMinutes(new Date(before));
+  while (after - before > 60_000) {
+    const mid = before + Math.floor((after - before) / 120_000) * 60_000;
+    if (getUkOffsetMinutes(new Date(mid)) === offsetBefore) before = mid;
+    else after = mid;
+  }
+  return new Date(after);
+}
 
-  // Morning: 03:00–11:00, Day: 11:00–19:00, Night: 19:00–03:00
-  let currentShift: ShiftName;
-  if (minsInShiftDay >= 3 * 60 && minsInShiftDay < 11 * 60) currentShift = 'Morning';
-  else if (minsInShiftDay >= 11 * 60 && minsInShiftDay < 19 * 60) currentShift = 'Day';
-  else currentShift = 'Night';
+/** The shift running at `date`, and the shift-day it belongs to. */
+function getCurrentShiftWindow(date: Date, config: ShiftConfig) {
+  const ukNow = getUkNow(date);
+  const rollover = getRolloverMinutes(config);
+  const shiftDayIsoDate = ukNow.hour * 60 + ukNow.minute < rollover ? addDaysIso(ukNow.isoDate, -1) : ukNow.isoDate;
+  const minsInShiftDay = minutesIntoShiftDay(ukNow, config);
+  const window = getShiftWindows(config).find((w) => minsInShiftDay >= w.start && minsInShiftDay < w.end);
+  return { shiftDayIsoDate, rollover, start: window?.start ?? 0, end: window?.end ?? 24 * 60 };
+}
 
-  const remainingShiftsToday: ShiftName[] =
-    currentShift === 'Morning' ? ['Morning', 'Day', 'Night'] : currentShift === 'Day' ? ['Day', 'Night'] : ['Night'];
+/** The instant the shift running at `date` started. */
+export function getShiftStartedAt(date = new Date(), config: ShiftConfig = DEFAULT_SHIFT_CONFIG): Date {
+  const current = getCurrentShiftWindow(date, config);
+  // The earlier reading, so a shift never starts after `date`.
+  return ukWallClockToDate(current.shiftDayIsoDate, current.rollover + current.start, 'earlier');
+}
 
-  return { ukNow, shiftDayIsoDate, currentShift, remainingShiftsToday };
+/** The instant the shift running at `date` ends. */
+export function getShiftEndsAt(date = new Date(), config: ShiftConfig = DEFAULT_SHIFT_CONFIG): Date {
+  const current = getCurrentShiftWindow(date, config);
+  // The later reading, so a shift never ends before `date`.
+  return ukWallClockToDate(current.shiftDayIsoDate, current.rollover + current.end, 'later');
 }
 
 export function daysBetweenIsoInclusive(startIso: string, endIso: string): number {
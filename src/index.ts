@@ -18,8 +18,19 @@ import { startShift } from './shifts.js';
 import { endShift } from './shifts.js';
 import { handleShiftMessage } from './shifts.js';
 import { startShiftMonitor } from './shiftMonitor.js';
-import { handleFundingChannelMessage } from './funding/index.js';
+import {
+  handleFundingButton,
+  handleFundingChannelMessage,
+  handleFundingCommand,
+  handleFundingMessageDelete,
+  handleFundingMessageUpdate,
+  handleFundingModal,
+} from './funding/index.js';
+import { startFundingShiftAnnouncer } from './funding/announcements.js';
+import { startFundingBoardRefresher } from './funding/board.js';
+import { resolveDefaultTrackerGuild } from './funding/trackers.js';
 import { addDaysIso, getUkNow } from './funding/ukTime.js';
+import { describeCurrentShift, handleShiftsCommand } from './shiftConfig.js';
 
 const env = getEnv();
 
@@ -31,7 +42,7 @@ const client = new Client({
     GatewayIntentBits.GuildMembers,
     GatewayIntentBits.DirectMessages,
   ],
-  partials: [Partials.Channel],
+  partials: [Partials.Channel, Partials.Message],
 });
 
 function isStaff(i: ChatInputCommandInteraction) {
@@ -46,11 +57,15 @@ client.once(Events.ClientReady, async () => {
     // Just trigger connection, ignore result
   });
 
+  // Before anything reads trackers: the FUNDING_CHANNEL_ID tracker belongs to that channel's guild only.
+  await resolveDefaultTrackerGuild(client);
   await registerCommands(env);
 
   startTaskMonitor(client);
   startDailySummary(client);
   startShiftMonitor(client);
+  startFundingShiftAnnouncer(client);
+  startFundingBoardRefresher(client);
 
   console.log(`Bot ready as ${client.user?.tag}`);
 });
@@ -62,6 +77,15 @@ client.on(Events.MessageCreate, async (message) => {
   await handleFundingChannelMessage(message);
 });
 
+// Funding screenshots that are edited or deleted are re-processed or rolled back
+client.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
+  await handleFundingMessageUpdate(oldMessage, newMessage);
+});
+
+client.on(Events.MessageDelete, async (message) => {
+  await handleFundingMessageDelete(message);
+});
+
 // Task templates for quick assignment
 const TASK_TEMPLATES: Record<string, { title: string; description: string; defaultPriority: string }> = {
   review_content: {
@@ -98,7 +122,13 @@ const TASK_TEMPLATES: Record<string, { title: string; description: string; defau
 
 client.on(Events.InteractionCreate, async (interaction) => {
   try {
-    // Modal submissions removed - proof is now handled via chat messages
+    // Task proof modals were removed (proof is handled via chat messages); only funding uses modals now
+    if (interaction.isModalSubmit()) {
+      if (interaction.customId.startsWith('funding_')) {
+        await handleFundingModal(interaction);
+      }
+      return;
+    }
 
     // Handle button interactions
     if (interaction.isButton()) {
@@ -121,6 +151,11 @@ client.on(Events.InteractionCreate, async (interaction) => {
         await handleTaskButton(interaction, taskId, TaskStatus.cancelled);
         return;
       }
+
+      if (customId.startsWith('funding_')) {
+        await handleFundingButton(interaction);
+        return;
+      }
     }
 
     if (interaction.isChatInputCommand()) {
@@ -139,6 +174,7 @@ client.on(Events.InteractionCreate, async (interaction) => {
         await interaction.deferReply({ flags: MessageFlags.Ephemeral });
 
         try {
+          // Rota weeks follow the UK calendar date, not the shift-day, so Monday 00:00 starts a new week.
           const ukNow = getUkNow();
           const weekStartDate = getWeekStartMondayIso(ukNow.isoDate);
           const weekEndDate = addDaysIso(weekStartDate, 6);
@@ -232,6 +268,16 @@ client.on(Events.InteractionCreate, async (interaction) => {
         return;
       }
 
+      if (interaction.commandName === 'shifts') {
+        await handleShiftsCommand(interaction);
+        return;
+      }
+
+      if (interaction.commandName === 'funding') {
+        await handleFundingCommand(interaction);
+        return;
+      }
+
       if (interaction.commandName === 'startshift') {
         // Ensure command is used in a server (not DMs)
         if (!interaction.guild) {
@@ -247,12 +293,13 @@ client.on(Events.InteractionCreate, async (interaction) => {
           console.log(`Starting shift for user ${interaction.user.id}`);
           const result = await startShift(client, interaction.user);
           console.log(`Shift start result:`, result);
+          const currentShift = await describeCurrentShift(interaction.guildId);
           await interaction.editReply({
             embeds: [
               {
                 title: result.created ? 'Shift started' : 'Shift already running',
                 description: result.created
-                  ? '✅ Shift started and logged.\n📬 Check your DMs for the full shift instructions and checklist.'
+                  ? `✅ Shift started and logged.\n🕒 Current shift: ${currentShift}\n📬 Check your DMs for the full shift instructions and checklist.`
                   : '⚠️ **Your shift has already started and is currently running.**\n\nPlease end your current shift first using `/endshift` or `!endshift` before starting a new one.',
                 color: result.created ? 0x22c55e : 0xf59e0b,
                 footer: { text: result.created ? 'Use /endshift or !endshift when you finish.' : 'End your current shift to start a new one.' },
@@ -0,0 +1,134 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { shiftConfigs } from './db/index.js';
+import { getEnv, getStaffUserIds } from './env.js';
+import {
+  DEFAULT_SHIFT_CONFIG,
+  getUkShiftInfo,
+  validateShiftConfig,
+  type ShiftConfig,
+  type ShiftDefinition,
+} from './funding/ukTime.js';
+
+const MAX_SHIFTS = 8;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, { config: ShiftConfig; expiresAt: number }>();
+
+/** The guild's shift definitions, or the default Morning/Day/Night split. Never throws. */
+export async function getShiftConfig(guildId: string | null | undefined): Promise<ShiftConfig> {
+  if (!guildId) return DEFAULT_SHIFT_CONFIG;
+  const cached = cache.get(guildId);
+  if (cached && cached.expiresAt > Date.now()) return cached.config;
+
+  let config = DEFAULT_SHIFT_CONFIG;
+  try {
+    const row = await shiftConfigs.findUnique({ where: { guildId } });
+    const stored = row ? { shifts: row.shifts, rollover: row.rollover } : null;
+    // A hand-edited row that no longer tiles the day would break every calculation; fall back instead.
+    if (stored && validateShiftConfig(stored).length === 0) config = stored;
+    else if (stored) console.error(`[Shifts] Ignoring invalid shift config for guild ${guildId}`);
+  } catch (error) {
+    console.error('[Shifts] Failed to load shift config:', error);
+    return DEFAULT_SHIFT_CONFIG;
+  }
+
+  cache.set(guildId, { config, expiresAt: Date.now() + CACHE_TTL_MS });
+  return config;
+}
+
+/** Parse "Morning 03:00-11:00, Day 11:00-19:00, Night 19:00-03:00" (commas, semicolons or new lines). */
+export function parseShiftDefinitions(input: string): { shifts: ShiftDefinition[]; errors: string[] } {
+  const shifts: ShiftDefinition[] = [];
+  const errors: string[] = [];
+  for (const part of input.split(/[,;\n]/).map((p) => p.trim()).filter(Boolean)) {
+    const match = /^(.+?)\s+(\d{1,2}:\d{2})\s*[-–]\s*(\d{1,2}:\d{2})$/.exec(part);
+    if (!match) {
+      errors.push(`Could not read \`${part}\`. Use \`Name HH:MM-HH:MM\`.`);
+      continue;
+    }
+    const pad = (hhmm: string) => hhmm.padStart(5, '0');
+    shifts.push({ name: match[1].trim().slice(0, 20), start: pad(match[2]), end: pad(match[3]) });
+  }
+  if (shifts.length > MAX_SHIFTS) errors.push(`At most ${MAX_SHIFTS} shifts are supported.`);
+  return { shifts, errors };
+}
+
+export function formatShiftConfig(config: ShiftConfig): string {
+  return config.shifts.map((s) => `**${s.name}** ${s.start}–${s.end}`).join('\n');
+}
+
+/** "**Night** (19:00–03:00)" for the shift running now, for shift start replies. */
+export async function describeCurrentShift(guildId: string | null | undefined, date = new Date()): Promise<string> {
+  const config = await getShiftConfig(guildId);
+  const name = getUkShiftInfo(date, config).currentShift;
+  const shift = config.shifts.find((s) => s.name === name);
+  return shift ? `**${shift.name}** (${shift.start}–${shift.end})` : `**${name}**`;
+}
+
+function buildShiftConfigEmbed(config: ShiftConfig, title: string, isDefault: boolean) {
+  const info = getUkShiftInfo(new Date(), config);
+  return {
+    title,
+    description: formatShiftConfig(config),
+    fields: [
+      { name: 'Shift-day starts', value: `${config.rollover} UK`, inline: true },
+      { name: 'Current shift', value: `${info.currentShift} (shift day ${info.shiftDayIsoDate})`, inline: true },
+    ],
+    color: 0x5865f2,
+    footer: { text: isDefault ? 'Using the default shifts' : 'Used for funding targets and shift reports' },
+  };
+}
+
+export async function handleShiftsCommand(interaction: ChatInputCommandInteraction) {
+  const sub = interaction.options.getSubcommand();
+  const guildId = interaction.guildId;
+  if (!guildId) {
+    await interaction.reply({ content: 'This command can only be used in a server.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+  if (sub !== 'show' && !new Set(getStaffUserIds(getEnv())).has(interaction.user.id)) {
+    await interaction.reply({ content: 'Only staff members can change shift times.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+  try {
+    if (sub === 'show') {
+      const row = await shiftConfigs.findUnique({ where: { guildId } });
+      const config = await getShiftConfig(guildId);
+      await interaction.editReply({ embeds: [buildShiftConfigEmbed(config, '🕒 Shifts', !row)] });
+      return;
+    }
+
+    if (sub === 'set') {
+      const { shifts, errors } = parseShiftDefinitions(interaction.options.getString('shifts', true));
+      const current = await getShiftConfig(guildId);
+      const rollover =
+        interaction.options.getString('rollover')?.trim().padStart(5, '0') ??
+        // Default to the first listed shift's start when the rollover is not given.
+        shifts[0]?.start ??
+        current.rollover;
+      const config: ShiftConfig = { shifts, rollover };
+      const problems = [...errors, ...(errors.length ? [] : validateShiftConfig(config))];
+      if (problems.length > 0) {
+        await interaction.editReply({ content: `❌ Shifts not saved:\n${problems.map((p) => `• ${p}`).join('\n')}` });
+        return;
+      }
+      await shiftConfigs.upsert({ guildId, shifts, rollover, updatedBy: interaction.user.id });
+      cache.delete(guildId);
+      await interaction.editReply({ embeds: [buildShiftConfigEmbed(config, '✅ Shifts Updated', false)] });
+      return;
+    }
+
+    if (sub === 'reset') {
+      await shiftConfigs.delete({ where: { guildId } });
+      cache.delete(guildId);
+      await interaction.editReply({ embeds: [buildShiftConfigEmbed(DEFAULT_SHIFT_CONFIG, '↩️ Shifts Reset', true)] });
+      return;
+    }
+  } catch (error: any) {
+    console.error('Error handling /shifts:', error);
+    await interaction.editReply({ content: `Error: ${error.message || 'Failed to update shifts'}` });
+  }
+}
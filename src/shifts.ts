@@ -1,6 +1,7 @@
 import type { Client, Message, TextChannel, User } from 'discord.js';
 import { prisma } from './db/index.js';
 import { getEnv } from './env.js';
+import { describeCurrentShift } from './shiftConfig.js';
 
 const SHIFT_NOTIFICATION_CHANNEL_ID = '1289237454720860170';
 
@@ -320,13 +321,14 @@ export async function handleShiftMessage(client: Client, message: Message) {
 
   if (isStartTextCommand) {
     const result = await startShift(client, message.author);
+    const currentShift = await describeCurrentShift(message.guild.id);
     await sendableChannel.send({
       content: `<@${message.author.id}>`,
       embeds: [
         {
           title: result.created ? 'Shift started' : 'Shift already running',
           description: result.created
-            ? '✅ Shift started and logged.\n📬 Check your DMs for the shift playbook.'
+            ? `✅ Shift started and logged.\n🕒 Current shift: ${currentShift}\n📬 Check your DMs for the shift playbook.`
             : '⚠️ **Your shift has already started and is currently running.**\n\nPlease end your current shift first using `/endshift` or `!endshift` before starting a new one.',
           color: result.created ? 0x22c55e : 0xf59e0b,
           footer: { text: result.created ? 'Use /endshift or !endshift when you finish.' : 'End your current shift to start a new one.' },